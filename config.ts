@@ -0,0 +1,231 @@
+/** A problem with a single config key found while loading a config. */
+export interface ConfigIssue {
+  /** Key of the config service followed by the field, ex. `db.url`. */
+  key: string;
+  message: string;
+}
+
+/**
+ * Error thrown when a config added via `StoreDefinition.addConfig` has
+ * invalid or missing values, listing every invalid key.
+ */
+export class ConfigValidationError extends Error {
+  readonly issues: readonly ConfigIssue[];
+
+  /** @ignore */
+  constructor(issues: readonly ConfigIssue[]) {
+    super(
+      `Invalid config:\n${
+        issues.map((issue) => `  - ${issue.key}: ${issue.message}`).join("\n")
+      }`,
+    );
+    this.name = "ConfigValidationError";
+    this.issues = issues;
+  }
+}
+
+type ParseResult<T> = { value: T } | { error: string };
+
+/** Describes and parses a single config value. Create one via `field`. */
+export class ConfigField<T> {
+  readonly #parse: (value: unknown) => ParseResult<T>;
+  readonly #isOptional: boolean;
+  readonly #defaultValue: { value: T } | undefined;
+
+  /** @ignore */
+  constructor(
+    parse: (value: unknown) => ParseResult<T>,
+    isOptional: boolean,
+    defaultValue: { value: T } | undefined,
+  ) {
+    this.#parse = parse;
+    this.#isOptional = isOptional;
+    this.#defaultValue = defaultValue;
+  }
+
+  /** Allows the value to be missing, in which case it's `undefined`. */
+  optional(): ConfigField<T | undefined> {
+    return new ConfigField<T | undefined>(this.#parse, true, undefined);
+  }
+
+  /** Uses the provided value when the value is missing. */
+  default(value: T): ConfigField<T> {
+    return new ConfigField(this.#parse, false, { value });
+  }
+
+  /** @ignore */
+  parse(value: unknown): ParseResult<T> {
+    if (value === undefined) {
+      if (this.#defaultValue != null) {
+        return this.#defaultValue;
+      } else if (this.#isOptional) {
+        return { value: undefined as T };
+      } else {
+        return { error: "is required" };
+      }
+    }
+    return this.#parse(value);
+  }
+}
+
+/**
+ * Fields of a config schema. Values read from the environment are
+ * strings, so numbers and booleans are also parsed from strings.
+ *
+ * ```ts
+ * const schema = {
+ *   url: field.string(),
+ *   port: field.number().default(5432),
+ *   ssl: field.boolean().optional(),
+ *   mode: field.enum(["development", "production"]),
+ * };
+ * ```
+ */
+export const field = {
+  string(): ConfigField<string> {
+    return createField<string>((value) =>
+      typeof value === "string"
+        ? { value }
+        : { error: `expected a string, got ${describe(value)}` }
+    );
+  },
+  number(): ConfigField<number> {
+    return createField<number>((value) => {
+      const number = typeof value === "string" && value.trim() !== ""
+        ? Number(value)
+        : value;
+      return typeof number === "number" && Number.isFinite(number)
+        ? { value: number }
+        : { error: `expected a number, got ${describe(value)}` };
+    });
+  },
+  boolean(): ConfigField<boolean> {
+    return createField<boolean>((value) => {
+      if (typeof value === "boolean") {
+        return { value };
+      }
+      const text = typeof value === "string" ? value.toLowerCase() : undefined;
+      if (text === "true" || text === "1") {
+        return { value: true };
+      } else if (text === "false" || text === "0") {
+        return { value: false };
+      }
+      return { error: `expected a boolean, got ${describe(value)}` };
+    });
+  },
+  enum<const TValues extends readonly string[]>(
+    values: TValues,
+  ): ConfigField<TValues[number]> {
+    return createField<TValues[number]>((value) =>
+      values.includes(value as string) ? { value: value as TValues[number] } : {
+        error: `expected one of ${
+          values.map((v) => JSON.stringify(v)).join(", ")
+        }, got ${describe(value)}`,
+      }
+    );
+  },
+};
+
+function createField<T>(
+  parse: (value: unknown) => ParseResult<T>,
+): ConfigField<T> {
+  return new ConfigField<T>(parse, false, undefined);
+}
+
+/** Fields of a config, keyed by the name of each value. */
+export type ConfigSchema = Record<string, ConfigField<any>>;
+
+/** The values of a config with the provided schema. */
+export type ConfigOf<TSchema extends ConfigSchema> = {
+  [K in keyof TSchema]: TSchema[K] extends ConfigField<infer T> ? T : never;
+};
+
+/** Where the raw values of a config are read from. */
+export interface ConfigSource {
+  /** Reads the raw values of the provided keys, leaving out missing ones. */
+  read(keys: readonly string[]): Record<string, unknown>;
+  /** Describes where a key is read from, for error messages. */
+  describe(key: string): string;
+}
+
+/**
+ * Reads config values from environment variables, where each key is
+ * converted to upper snake case (ex. `dbUrl` is read from `DB_URL`).
+ */
+export function fromEnv(options: { prefix?: string } = {}): ConfigSource {
+  const envName = (key: string) =>
+    (options.prefix ?? "") +
+    key.replace(/([a-z0-9])([A-Z])/g, "$1_$2").toUpperCase();
+  return {
+    read(keys) {
+      return Object.fromEntries(
+        keys.map((key) => [key, Deno.env.get(envName(key))]),
+      );
+    },
+    describe(key) {
+      return `env ${envName(key)}`;
+    },
+  };
+}
+
+/** Reads config values from the top level of a JSON file. */
+export function fromJsonFile(path: string | URL): ConfigSource {
+  return {
+    read() {
+      return JSON.parse(Deno.readTextFileSync(path));
+    },
+    describe(key) {
+      return `${key} in ${path}`;
+    },
+  };
+}
+
+/** Reads config values from an object. */
+export function fromObject(values: Record<string, unknown>): ConfigSource {
+  return {
+    read() {
+      return values;
+    },
+    describe(key) {
+      return key;
+    },
+  };
+}
+
+/**
+ * Reads and parses the values of a config, preferring the provided
+ * values over the ones from the source.
+ *
+ * @remarks Throws a `ConfigValidationError` listing every invalid key.
+ */
+export function loadConfig<TSchema extends ConfigSchema>(
+  name: string,
+  source: ConfigSource,
+  schema: TSchema,
+  values: Partial<ConfigOf<TSchema>> = {},
+): ConfigOf<TSchema> {
+  const keys = Object.keys(schema);
+  const raw = {
+    ...source.read(keys.filter((key) => !(key in values))),
+    ...values,
+  } as Record<string, unknown>;
+  const config: Record<string, unknown> = {};
+  const issues: ConfigIssue[] = [];
+  for (const key of keys) {
+    const result = schema[key].parse(raw[key]);
+    if ("error" in result) {
+      const from = key in values ? "" : ` (${source.describe(key)})`;
+      issues.push({ key: `${name}.${key}`, message: result.error + from });
+    } else {
+      config[key] = result.value;
+    }
+  }
+  if (issues.length > 0) {
+    throw new ConfigValidationError(issues);
+  }
+  return config as ConfigOf<TSchema>;
+}
+
+function describe(value: unknown): string {
+  return typeof value === "string" ? JSON.stringify(value) : String(value);
+}
@@ -0,0 +1,157 @@
+/**
+ * How long a service instance lives once it's created.
+ *
+ * - `singleton` - memoized in the store that declares it.
+ * - `scoped` - memoized separately in each store that resolves it.
+ * - `transient` - created each time it's requested.
+ */
+export type ServiceLifetime = "singleton" | "scoped" | "transient";
+
+/** A service registered in a store or one of its parents. */
+export interface ServiceNode {
+  /**
+   * Key the service is registered at. For a token or class, this is its
+   * description followed by a number unique to it in the graph (ex.
+   * `Logger#1`), so services with the same description don't collide.
+   * Tokens with the same description are numbered in registration order,
+   * starting from the top-most store.
+   */
+  key: string;
+  /** Description of the token or class the service is registered at. */
+  label?: string;
+  lifetime: ServiceLifetime;
+  /** If the service's factory is replaced via `override`. */
+  overridden: boolean;
+  /**
+   * Level of the store the service is resolved from, where `0` is a
+   * store without a parent and each `createChild` adds one.
+   */
+  storeLevel: number;
+}
+
+/**
+ * A service (`from`) that declared or requested another service (`to`)
+ * while being created, by their `ServiceNode.key`.
+ */
+export interface ServiceEdge {
+  from: string;
+  to: string;
+}
+
+/**
+ * Snapshot of the services in a store along with the dependencies
+ * that are known between them.
+ *
+ * @remarks Services with declared `deps` have an edge to each of them.
+ * Other edges are recorded when a factory calls `get`, `resolve` or
+ * `tryGet`, or creates a `lazy` handle, while it runs. So those edges
+ * only include services that have been created, and a service that
+ * gets another one later (ex. from one of its methods) isn't known to
+ * depend on it. `Store.fork`, `Store.refresh` and
+ * `StoreOptions.overrideParentDependents` find dependents the same way.
+ */
+export interface ServiceGraph {
+  services: ServiceNode[];
+  edges: ServiceEdge[];
+}
+
+/** Serializes the graph as JSON with a stable ordering, suitable for diffing. */
+export function graphToJson(graph: ServiceGraph): string {
+  const { services, edges } = sortGraph(graph);
+  return JSON.stringify({ services, edges }, undefined, 2);
+}
+
+/** Formats the graph as a Graphviz DOT digraph. */
+export function graphToDot(graph: ServiceGraph): string {
+  const { services, edges } = sortGraph(graph);
+  const lines = ["digraph services {"];
+  for (const [level, nodes] of groupByLevel(services)) {
+    lines.push(`  subgraph cluster_${level} {`);
+    lines.push(`    label=${dotString(`store level ${level}`)};`);
+    for (const node of nodes) {
+      const attrs = [
+        `label=${dotString(`${node.label ?? node.key}\n${describe(node)}`)}`,
+      ];
+      if (node.lifetime === "transient") {
+        attrs.push("style=dashed");
+      } else if (node.lifetime === "scoped") {
+        attrs.push("style=dotted");
+      }
+      if (node.overridden) {
+        attrs.push("color=orange");
+      }
+      lines.push(`    ${dotString(node.key)} [${attrs.join(", ")}];`);
+    }
+    lines.push("  }");
+  }
+  for (const edge of edges) {
+    lines.push(`  ${dotString(edge.from)} -> ${dotString(edge.to)};`);
+  }
+  lines.push("}");
+  return lines.join("\n") + "\n";
+}
+
+/** Formats the graph as a Mermaid flowchart. */
+export function graphToMermaid(graph: ServiceGraph): string {
+  const { services, edges } = sortGraph(graph);
+  const ids = new Map(services.map((node, i) => [node.key, `s${i}`]));
+  const idFor = (key: string) => {
+    if (!ids.has(key)) {
+      ids.set(key, `s${ids.size}`);
+    }
+    return ids.get(key)!;
+  };
+  const lines = ["flowchart TD"];
+  for (const [level, nodes] of groupByLevel(services)) {
+    lines.push(`  subgraph level${level}["store level ${level}"]`);
+    for (const node of nodes) {
+      lines.push(
+        `    ${idFor(node.key)}["${
+          mermaidString(`${node.label ?? node.key} (${describe(node)})`)
+        }"]`,
+      );
+    }
+    lines.push("  end");
+  }
+  for (const edge of edges) {
+    lines.push(`  ${idFor(edge.from)} --> ${idFor(edge.to)}`);
+  }
+  return lines.join("\n") + "\n";
+}
+
+function sortGraph(graph: ServiceGraph): ServiceGraph {
+  return {
+    services: [...graph.services].sort((a, b) =>
+      a.storeLevel - b.storeLevel || compare(a.key, b.key)
+    ),
+    edges: [...graph.edges].sort((a, b) =>
+      compare(a.from, b.from) || compare(a.to, b.to)
+    ),
+  };
+}
+
+function groupByLevel(services: ServiceNode[]): Map<number, ServiceNode[]> {
+  const groups = new Map<number, ServiceNode[]>();
+  for (const node of services) {
+    const group = groups.get(node.storeLevel) ?? [];
+    group.push(node);
+    groups.set(node.storeLevel, group);
+  }
+  return groups;
+}
+
+function describe(node: ServiceNode): string {
+  return node.overridden ? `${node.lifetime}, overridden` : node.lifetime;
+}
+
+function compare(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function dotString(value: string): string {
+  return JSON.stringify(value);
+}
+
+function mermaidString(value: string): string {
+  return value.replaceAll('"', "#quot;");
+}
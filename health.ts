@@ -0,0 +1,89 @@
+/**
+ * Method a service can implement to report its health, which is used
+ * by `Store.checkHealth` when no `healthCheck` option was provided.
+ *
+ * ```ts
+ * class Database {
+ *   async [healthCheckSymbol]() {
+ *     await this.query("select 1");
+ *   }
+ * }
+ * ```
+ */
+export const healthCheckSymbol: unique symbol = Symbol.for("tiny-di.health");
+
+/**
+ * Checks the health of a service. The service is unhealthy if the
+ * check throws, rejects or returns `false`.
+ */
+export type HealthCheck<T> = (value: T) => unknown;
+
+/**
+ * Health of a service in a `HealthReport`.
+ *
+ * - `healthy` - the check passed.
+ * - `unhealthy` - the check failed, timed out or the service failed to be created.
+ * - `not-created` - the service hasn't been created, so it wasn't checked.
+ */
+export type HealthStatus = "healthy" | "unhealthy" | "not-created";
+
+/** Result of checking the health of a single service. */
+export interface ServiceHealth {
+  /** Key the service is registered at, or the description of a token or class. */
+  key: string;
+  status: HealthStatus;
+  /** How long the check took, or `undefined` when it didn't run. */
+  latencyMs: number | undefined;
+  /** What the check threw or rejected with, if anything. */
+  error?: unknown;
+  /** Level of the store the service was checked in. See `ServiceNode.storeLevel`. */
+  storeLevel: number;
+}
+
+/** Result of `Store.checkHealth`. */
+export interface HealthReport {
+  /** `unhealthy` when any service is unhealthy. */
+  status: "healthy" | "unhealthy";
+  services: ServiceHealth[];
+}
+
+/** Options for `Store.checkHealth`. */
+export interface HealthCheckOptions {
+  /** Time a check has to finish before it's unhealthy. Defaults to 5000. */
+  timeoutMs?: number;
+  /** Also checks the services of the parent stores. Defaults to `false`. */
+  includeParents?: boolean;
+}
+
+/**
+ * Runs a health check, failing it if it doesn't finish within the
+ * provided time.
+ */
+export async function runHealthCheck(
+  check: () => unknown,
+  timeoutMs: number,
+): Promise<Pick<ServiceHealth, "status" | "latencyMs" | "error">> {
+  const start = performance.now();
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timeoutId = setTimeout(
+      () => reject(new Error(`Health check timed out after ${timeoutMs}ms.`)),
+      timeoutMs,
+    );
+  });
+  try {
+    const result = await Promise.race([Promise.resolve().then(check), timeout]);
+    return {
+      status: result === false ? "unhealthy" : "healthy",
+      latencyMs: performance.now() - start,
+    };
+  } catch (err) {
+    return {
+      status: "unhealthy",
+      latencyMs: performance.now() - start,
+      error: err,
+    };
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
@@ -26,7 +26,31 @@ SOFTWARE.
  */
 
 import { assert, assertEquals, assertRejects, assertThrows } from "@std/assert";
-import { defineStore, type Store, StoreDefinition } from "./mod.ts";
+import {
+  CaptiveDependencyError,
+  CircularDependencyError,
+  ConfigValidationError,
+  createToken,
+  defineModule,
+  defineStore,
+  field,
+  fromEnv,
+  fromObject,
+  graphToDot,
+  graphToJson,
+  graphToMermaid,
+  healthCheckSymbol,
+  type InterceptorContext,
+  type Lazy,
+  MissingServiceError,
+  type RefreshEvent,
+  ServiceFactoryError,
+  type Store,
+  StoreDefinition,
+  StoreInitializationError,
+  type StoreOptions,
+  StoreValidationError,
+} from "./mod.ts";
 
 Deno.test("StoreBuilder ctor", () => {
   assertThrows(
@@ -108,6 +132,134 @@ Deno.test("async", async () => {
   }
 });
 
+Deno.test("addAsync and resolve", async () => {
+  let dbCreatedTimes = 0;
+  const store = defineStore()
+    .addAsync("db", async () => {
+      dbCreatedTimes++;
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      return { value: 5 };
+    })
+    .addAsync("userService", async (store) => {
+      return { db: await store.resolve("db") };
+    })
+    .add("config", () => ({ value: 1 }))
+    .finalize();
+
+  assertThrows(
+    () => store.get("db"),
+    Error,
+    "Async service has not been resolved: db.",
+  );
+  const [db1, db2] = await Promise.all([
+    store.resolve("db"),
+    store.resolve("db"),
+  ]);
+  assert(db1 === db2);
+  assertEquals(dbCreatedTimes, 1);
+  // typed as the awaited value
+  const value: number = store.get("db").value;
+  assertEquals(value, 5);
+  assertEquals((await store.resolve("userService")).db.value, 5);
+  assertEquals((await store.resolve("config")).value, 1);
+});
+
+Deno.test("addAsync rejection", async () => {
+  let attempts = 0;
+  const factory = async () => {
+    attempts++;
+    await new Promise((resolve) => setTimeout(resolve, 1));
+    if (attempts === 1) {
+      throw new Error("Error");
+    }
+    return attempts;
+  };
+  const retryStore = defineStore().addAsync("a", factory).finalize();
+  await assertRejects(() => retryStore.resolve("a"), ServiceFactoryError);
+  assertEquals(await retryStore.resolve("a"), 2);
+
+  attempts = 0;
+  const cacheStore = defineStore()
+    .addAsync("a", factory, { cacheRejection: true })
+    .finalize();
+  const err = await assertRejects(
+    () => cacheStore.resolve("a"),
+    ServiceFactoryError,
+  );
+  assert(err === await assertRejects(() => cacheStore.resolve("a")));
+  assert(err === assertThrows(() => cacheStore.get("a")));
+  assertEquals(attempts, 1);
+});
+
+Deno.test("collections", () => {
+  let nextHandler = 3;
+  const parentStore = defineStore()
+    .add("prefix", () => "handler")
+    .addToCollection("handlers", (store) => `${store.get("prefix")} 1`)
+    .finalize();
+  const childDef = parentStore.createChild()
+    .addToCollection("handlers", () => "handler 2")
+    .addToCollection("handlers", () => `handler ${nextHandler++}`, {
+      transient: true,
+    });
+
+  assertEquals(parentStore.get("handlers"), ["handler 1"]);
+  const store = childDef.finalize();
+  const handlers: string[] = store.get("handlers");
+  assertEquals(handlers, ["handler 1", "handler 2", "handler 3"]);
+  assertEquals(store.get("handlers"), ["handler 1", "handler 2", "handler 4"]);
+
+  assertThrows(
+    // @ts-expect-error "a" is not a collection
+    () => defineStore().add("a", () => 1).addToCollection("a", () => 1),
+    Error,
+    "Service already defined: a",
+  );
+  assertThrows(
+    // @ts-expect-error "prefix" is not a collection
+    () => childDef.addToCollection("prefix", () => "handler"),
+    Error,
+    "Service already defined: prefix",
+  );
+  // @ts-expect-error contributions must match the collection's item type
+  childDef.addToCollection("handlers", () => 5);
+});
+
+Deno.test("parameterized factories", () => {
+  let createdTimes = 0;
+  const disposed: string[] = [];
+  {
+    using store = defineStore()
+      .add("prefix", () => "tenant")
+      .addFactory("repo", (store, tenantId: number, region = "us") => {
+        createdTimes++;
+        return {
+          name: `${store.get("prefix")} ${tenantId} ${region}`,
+          [Symbol.dispose]() {
+            disposed.push(this.name);
+          },
+        };
+      })
+      .addFactory("logger", (_store, module: string) => ({ module }), {
+        key: (module) => module,
+      })
+      .add("service", (store) => ({ repo: store.create("repo", 1) }))
+      .finalize();
+
+    assertEquals(store.create("repo", 1).name, "tenant 1 us");
+    assertEquals(store.get("repo")(2, "eu").name, "tenant 2 eu");
+    assertEquals(store.get("service").repo.name, "tenant 1 us");
+    assertEquals(createdTimes, 3);
+
+    assert(store.create("logger", "http") === store.create("logger", "http"));
+    assert(store.create("logger", "http") !== store.create("logger", "db"));
+
+    // @ts-expect-error tenantId must be a number
+    const _typeCheck = () => store.create("repo", "1");
+  }
+  assertEquals(disposed, ["tenant 1 us", "tenant 2 eu", "tenant 1 us"]);
+});
+
 Deno.test("dispose", () => {
   let disposeCount = 0;
   {
@@ -185,6 +337,106 @@ Deno.test("async dispose used in using", () => {
   );
 });
 
+Deno.test("async dispose after failed sync dispose", async () => {
+  const disposed: string[] = [];
+  const store = defineStore()
+    .add("sync", () => ({
+      [Symbol.dispose]() {
+        disposed.push("sync");
+      },
+    }))
+    .add("async", () => ({
+      [Symbol.asyncDispose]() {
+        disposed.push("async");
+        return Promise.resolve();
+      },
+    }))
+    .finalize();
+  store.get("sync");
+  store.get("async");
+  assertThrows(
+    () => store[Symbol.dispose](),
+    Error,
+    "Cannot dispose a container containing async disposables.",
+  );
+  assertEquals(disposed, []);
+  await store[Symbol.asyncDispose]();
+  assertEquals(disposed, ["async", "sync"]);
+});
+
+Deno.test("dispose in reverse creation order", async () => {
+  const disposed: string[] = [];
+  const disposable = (name: string) => ({
+    async [Symbol.asyncDispose]() {
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      disposed.push(name);
+    },
+  });
+  const store = defineStore()
+    .add("pool", async () => {
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      return disposable("pool");
+    })
+    .add("repo", async (store) => {
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      return { pool: await store.get("pool"), ...disposable("repo") };
+    })
+    .add("logger", () => disposable("logger"))
+    .finalize();
+  store.get("logger");
+  await store.get("repo");
+  await store[Symbol.asyncDispose]();
+  assertEquals(disposed, ["repo", "pool", "logger"]);
+});
+
+Deno.test("dispose continues after errors", () => {
+  const disposed: string[] = [];
+  const store = defineStore()
+    .add("A", () => ({
+      [Symbol.dispose]() {
+        disposed.push("A");
+      },
+    }))
+    .add("B", () => ({
+      [Symbol.dispose]() {
+        throw new Error("B failed");
+      },
+    }))
+    .add("C", () => ({
+      [Symbol.dispose]() {
+        throw new Error("C failed");
+      },
+    }))
+    .finalize();
+  store.get("A");
+  store.get("B");
+  store.get("C");
+  const err = assertThrows(
+    () => store[Symbol.dispose](),
+    AggregateError,
+    "Failed disposing 2 services in the store.",
+  );
+  assertEquals(err.errors.map((e) => e.message), ["C failed", "B failed"]);
+  assertEquals(disposed, ["A"]);
+
+  // disposing again does nothing
+  store[Symbol.dispose]();
+  assertEquals(disposed, ["A"]);
+});
+
+Deno.test("get after dispose", async () => {
+  const store = defineStore()
+    .add("A", () => ({}))
+    .finalize();
+  store.get("A");
+  await store[Symbol.asyncDispose]();
+  assertThrows(
+    () => store.get("A"),
+    Error,
+    "Cannot get service from a disposed store: A",
+  );
+});
+
 Deno.test("transient", () => {
   let aCreatedTimes = 0;
   const store = defineStore()
@@ -209,6 +461,135 @@ Deno.test("transient", () => {
   assertEquals(aCreatedTimes, 3);
 });
 
+Deno.test("scoped", () => {
+  let connectionCount = 0;
+  const disposed: number[] = [];
+  const appStore = defineStore()
+    .add("pool", () => ({ name: "pool" }))
+    .addScoped("db", (store) => {
+      const id = ++connectionCount;
+      return {
+        id,
+        pool: store.get("pool"),
+        [Symbol.dispose]() {
+          disposed.push(id);
+        },
+      };
+    })
+    .finalize();
+  const requestDef = appStore.createChild()
+    .add("userService", (store) => ({ db: store.get("db") }));
+
+  {
+    using request1 = requestDef.finalize();
+    const request2 = requestDef.finalize();
+    assertEquals(request1.get("userService").db.id, 1);
+    assertEquals(request1.get("db").id, 1);
+    assertEquals(request2.get("userService").db.id, 2);
+    assert(request1.get("db").pool === request2.get("db").pool);
+  }
+  assertEquals(disposed, [1]);
+  assertEquals(appStore.get("db").id, 3);
+});
+
+Deno.test("captive dependencies", () => {
+  const definition = (options: StoreOptions) =>
+    defineStore(options)
+      .addScoped("db", () => ({}))
+      .addTransient("logger", () => ({}))
+      .add("userService", (store) => ({ db: store.get("db") }))
+      .addScoped("handler", (store) => ({ logger: store.get("logger") }))
+      .addTransient("job", (store) => ({ db: store.get("db") }));
+
+  const strictStore = definition({ captiveDependencies: "strict" }).finalize();
+  const err = assertThrows(
+    () => strictStore.get("userService"),
+    CaptiveDependencyError,
+    "Captive dependency detected: singleton userService (store level 0) depends on scoped db (store level 0) (userService -> db)",
+  );
+  assertEquals(err.dependent, {
+    key: "userService",
+    lifetime: "singleton",
+    storeLevel: 0,
+  });
+  assertEquals(err.dependency, {
+    key: "db",
+    lifetime: "scoped",
+    storeLevel: 0,
+  });
+  // shorter lived services may depend on longer lived ones
+  strictStore.get("job");
+
+  const reported: string[] = [];
+  const warnStore = definition({
+    captiveDependencies: "warn",
+    onCaptiveDependency: (err) => reported.push(err.path.join(" -> ")),
+  }).finalize();
+  warnStore.createChild().finalize().get("handler");
+  warnStore.get("userService");
+  assertEquals(reported, ["handler -> logger", "userService -> db"]);
+
+  // ignored by default
+  definition({}).finalize().get("userService");
+});
+
+Deno.test("interceptors", async () => {
+  const calls: string[] = [];
+  function record(name: string) {
+    return (context: InterceptorContext, next: () => unknown) => {
+      const { kind, key, lifetime, storeLevel } = context;
+      calls.push(`${name} ${kind} ${String(key)} ${lifetime} ${storeLevel}`);
+      try {
+        return next();
+      } catch (err) {
+        calls.push(`${name} error ${(err as Error).message}`);
+        throw err;
+      }
+    };
+  }
+  const parentStore = defineStore()
+    .intercept(record("outer"))
+    .addTransient("A", () => 1)
+    .add("B", (store) => store.get("A") + 1)
+    .finalize();
+  const childStore = parentStore.createChild()
+    .intercept(record("inner"))
+    .addAsync("C", async (store) => {
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      return store.get("B") * 10;
+    })
+    .add("D", (): number => {
+      throw new Error("failed");
+    })
+    .finalize();
+
+  assertEquals(await childStore.resolve("C"), 20);
+  assertEquals(calls, [
+    "outer get C singleton 1",
+    "inner get C singleton 1",
+    "outer factory C singleton 1",
+    "inner factory C singleton 1",
+    "outer get B singleton 1",
+    "inner get B singleton 1",
+    "outer factory B singleton 0",
+    "outer get A transient 0",
+    "outer factory A transient 0",
+  ]);
+
+  calls.length = 0;
+  assertThrows(() => childStore.get("D"));
+  assertEquals(calls, [
+    "outer get D singleton 1",
+    "inner get D singleton 1",
+    "outer factory D singleton 1",
+    "inner factory D singleton 1",
+    "inner error failed",
+    "outer error failed",
+    "inner error Failed creating service: D: failed",
+    "outer error Failed creating service: D: failed",
+  ]);
+});
+
 Deno.test("branching", () => {
   let aCreatedTimes = 0;
   let bCreatedTimes = 0;
@@ -290,6 +671,45 @@ Deno.test("store can be typed easily", () => {
   assertEquals(store.get("b").value, 2);
 });
 
+Deno.test("decorate", async () => {
+  const parentStore = defineStore()
+    .add("logger", () => ({ prefix: "" }))
+    .add("client", () => ({ calls: ["base"] }))
+    .finalize();
+  const definition = parentStore.createChild()
+    .addAsync("db", () => Promise.resolve({ name: "db" }))
+    .decorate("client", (client) => ({ calls: [...client.calls, "retry"] }))
+    .decorate("client", (client, store) => ({
+      calls: [...client.calls, `log${store.get("logger").prefix}`],
+    }))
+    .decorate("db", (db) => ({ name: `decorated ${db.name}` }));
+
+  const store = definition.finalize();
+  assertEquals(store.get("client").calls, ["base", "retry", "log"]);
+  assert(store.get("client") === store.get("client"));
+  assertEquals(parentStore.get("client").calls, ["base"]);
+  assertEquals((await store.resolve("db")).name, "decorated db");
+
+  const overriddenStore = definition
+    .override("client", () => ({ calls: ["mock"] }))
+    .finalize();
+  assertEquals(overriddenStore.get("client").calls, ["mock", "retry", "log"]);
+
+  // the parent's decorators apply to scoped services created in the child
+  const scopedStore = defineStore()
+    .addScoped("session", () => ({ steps: ["base"] }))
+    .decorate("session", (session) => ({ steps: [...session.steps, "root"] }))
+    .finalize();
+  const childStore = scopedStore.createChild()
+    .decorate("session", (session) => ({ steps: [...session.steps, "child"] }))
+    .finalize();
+  assertEquals(childStore.get("session").steps, ["base", "root", "child"]);
+  assertEquals(
+    childStore.createChild().finalize().get("session").steps,
+    ["base", "root", "child"],
+  );
+});
+
 Deno.test("override service - given original store and a store copy, expect original to be unmodified", () => {
   let originalCreatedTimes = 0;
   let overrideCreatedTimes = 0;
@@ -357,6 +777,616 @@ Deno.test("override service in child store", () => {
   assertEquals(overriddenChildStore.get("child").shared.value, "overridden");
 });
 
+Deno.test("overrides are memoized and disposed", () => {
+  const disposed: string[] = [];
+  let createdTimes = 0;
+  const definition = defineStore()
+    .add("db", () => ({ name: "db" }))
+    .addTransient("request", () => ({ name: "request" }))
+    .override("db", () => {
+      createdTimes++;
+      return {
+        name: "mock db",
+        [Symbol.dispose]() {
+          disposed.push("mock db");
+        },
+      };
+    })
+    .override("request", () => ({ name: "mock request" }));
+  {
+    using store = definition.finalize();
+    assert(store.get("db") === store.get("db"));
+    assertEquals(createdTimes, 1);
+    // keeps the lifetime of the service it replaces
+    assert(store.get("request") !== store.get("request"));
+  }
+  assertEquals(disposed, ["mock db"]);
+});
+
+Deno.test("override parent dependents", () => {
+  let repoCreatedTimes = 0;
+  const parentStore = defineStore()
+    .add("db", () => ({ name: "db" }))
+    .add("logger", () => ({ name: "logger" }))
+    .add("repo", (store) => {
+      repoCreatedTimes++;
+      return { db: store.get("db") };
+    })
+    .add("service", (store) => ({
+      repo: store.get("repo"),
+      logger: store.get("logger"),
+    }))
+    .finalize();
+  parentStore.get("service");
+
+  const sharedStore = parentStore.createChild()
+    .override("db", () => ({ name: "mock db" }))
+    .finalize();
+  assertEquals(sharedStore.get("service").repo.db.name, "db");
+
+  const childStore = parentStore.createChild({ overrideParentDependents: true })
+    .override("db", () => ({ name: "mock db" }))
+    .finalize();
+  const service = childStore.get("service");
+  assertEquals(service.repo.db.name, "mock db");
+  assert(service.repo === childStore.get("repo"));
+  assert(service.logger === parentStore.get("logger"));
+  assertEquals(parentStore.get("service").repo.db.name, "db");
+  assertEquals(repoCreatedTimes, 2);
+});
+
+Deno.test("override parent dependents that weren't created yet", () => {
+  const created: string[] = [];
+  const parentStore = defineStore()
+    .add("logger", () => {
+      created.push("logger");
+      return { name: "logger" };
+    })
+    .add("pool", () => {
+      created.push("pool");
+      return {};
+    })
+    .add("repo", (store) => {
+      created.push("repo");
+      return { logger: store.get("logger") };
+    })
+    .finalize();
+  const createChild = () =>
+    parentStore.createChild({ overrideParentDependents: true })
+      .override("logger", () => ({ name: "mock logger" }))
+      .finalize();
+
+  const first = createChild();
+  const second = createChild();
+  // the parent's pool is known not to depend on the logger once created
+  const pool = parentStore.get("pool");
+  assert(first.get("pool") === pool);
+  assert(second.get("pool") === pool);
+  assertEquals(first.get("repo").logger.name, "mock logger");
+  assertEquals(second.get("repo").logger.name, "mock logger");
+  assertEquals(parentStore.get("repo").logger.name, "logger");
+  // the parent's services aren't created to find their dependencies
+  assertEquals(created, ["pool", "repo", "repo", "repo", "logger"]);
+
+  // declared dependencies are used when the service wasn't created yet
+  const declaredStore = defineStore()
+    .add("db", (): { name: string } => {
+      throw new Error("no database");
+    })
+    .add("config", { deps: [], factory: () => ({ name: "config" }) })
+    .add("users", { deps: ["db"], factory: ({ db }) => ({ db }) })
+    .add("settings", { deps: ["config"], factory: ({ config }) => config })
+    .finalize();
+  const child = declaredStore.createChild({ overrideParentDependents: true })
+    .override("db", () => ({ name: "mock db" }))
+    .finalize();
+  assertEquals(child.get("users").db.name, "mock db");
+  assert(child.get("settings") === declaredStore.get("settings"));
+});
+
+Deno.test("fork", () => {
+  const created: string[] = [];
+  const disposed: string[] = [];
+  const service = (name: string, value: object = {}) => {
+    created.push(name);
+    return {
+      ...value,
+      [Symbol.dispose]() {
+        disposed.push(name);
+      },
+    };
+  };
+  const store = defineStore()
+    .add("config", () => service("config"))
+    .add("db", (store) => service("db", { config: store.get("config") }))
+    .add("cache", () => service("cache"))
+    .add("repo", (store) => service("repo", { db: store.get("db") }))
+    .add("userService", (store) => {
+      return service("userService", { repo: store.get("repo") });
+    })
+    .addFactory("logger", (_store, module: string) => service(module))
+    .finalize();
+  store.get("userService");
+  store.get("cache");
+  const createLogger = store.get("logger");
+  created.length = 0;
+
+  {
+    using fork = store.fork({ db: () => service("mock db") });
+    fork.get("userService");
+    fork.get("cache");
+    assert(fork.get("config") === store.get("config"));
+    assert(fork.get("cache") === store.get("cache"));
+    assert(fork.get("repo") !== store.get("repo"));
+    assertEquals(created, ["mock db", "repo", "userService"]);
+    // the fork creates the instances of parameterized factories it owns
+    assert(fork.get("logger") !== createLogger);
+    fork.get("logger")("fork logger");
+  }
+  // reused instances are still owned by the original store
+  assertEquals(disposed, ["fork logger", "userService", "repo", "mock db"]);
+});
+
+Deno.test("refresh", () => {
+  const disposed: string[] = [];
+  let version = 0;
+  const disposable = <T extends object>(name: string, value: T) => ({
+    ...value,
+    [Symbol.dispose]() {
+      disposed.push(name);
+    },
+  });
+  const store = defineStore()
+    .add("credentials", () => {
+      version++;
+      return disposable("credentials", { version });
+    })
+    .add("client", (store) => {
+      return disposable("client", { credentials: store.get("credentials") });
+    })
+    .add("logger", () => disposable("logger", {}))
+    .finalize();
+  const childStore = store.createChild()
+    .add("handler", (store) => ({ client: store.get("client") }))
+    .finalize();
+  const events: RefreshEvent[] = [];
+  store.onRefresh((event) => events.push(event));
+  const unsubscribe = childStore.onRefresh((event) => events.push(event));
+
+  const logger = store.get("logger");
+  assertEquals(childStore.get("handler").client.credentials.version, 1);
+  store.refresh("credentials");
+  assertEquals(disposed, ["client", "credentials"]);
+  assertEquals(version, 1); // lazily rebuilt
+  assert(store.get("logger") === logger);
+  assertEquals(childStore.get("handler").client.credentials.version, 2);
+  assert(childStore.get("client") === store.get("client"));
+  assertEquals(events, [
+    {
+      key: "credentials",
+      invalidated: ["credentials", "client"],
+      storeLevel: 0,
+    },
+    { key: "credentials", invalidated: ["handler"], storeLevel: 1 },
+  ]);
+
+  // refreshing from the child refreshes where the service is declared
+  unsubscribe();
+  childStore.refresh("credentials", { eager: true });
+  assertEquals(version, 3);
+  assertEquals(store.get("client").credentials.version, 3);
+  assertEquals(events.length, 3);
+
+  assertThrows(
+    // @ts-expect-error missing service
+    () => store.refresh("handler"),
+    MissingServiceError,
+  );
+
+  // instances a child creates itself aren't dropped with the parent's
+  const scopedStore = defineStore()
+    .addScoped("session", () => disposable("session", {}))
+    .add("db", () => disposable("db", {}))
+    .finalize();
+  const scopedChild = scopedStore.createChild()
+    .override("db", () => disposable("child db", {}))
+    .finalize();
+  const session = scopedChild.get("session");
+  const db = scopedChild.get("db");
+  scopedStore.get("session");
+  scopedStore.get("db");
+  disposed.length = 0;
+  scopedStore.refresh("session");
+  scopedStore.refresh("db");
+  assertEquals(disposed, ["session", "db"]);
+  assert(scopedChild.get("session") === session);
+  assert(scopedChild.get("db") === db);
+});
+
+Deno.test("refresh async", async () => {
+  const disposed: string[] = [];
+  let version = 0;
+  const store = defineStore()
+    .addAsync("config", () => {
+      version++;
+      return Promise.resolve({
+        version,
+        [Symbol.asyncDispose]() {
+          disposed.push(`config ${this.version}`);
+          return Promise.resolve();
+        },
+      });
+    })
+    .finalize();
+  await store.resolve("config");
+  assertThrows(
+    () => store.refresh("config"),
+    Error,
+    "Use `await using` instead of `using`.",
+  );
+  assertEquals((await store.resolve("config")).version, 2);
+  await store.refreshAsync("config", { eager: true });
+  assertEquals(version, 3);
+  assertEquals(store.get("config").version, 3);
+  assertEquals(disposed, ["config 2"]);
+
+  // a dependent being created in a child leaves every store unchanged
+  const childStore = store.createChild()
+    .addAsync("client", async (store) => ({
+      config: await store.resolve("config"),
+    }))
+    .finalize();
+  const client = childStore.resolve("client");
+  await assertRejects(
+    () => store.refreshAsync("config"),
+    Error,
+    "Cannot refresh service while it's being created: client",
+  );
+  assertEquals(store.get("config").version, 3);
+  assertEquals((await client).config.version, 3);
+  assertEquals(disposed, ["config 2"]);
+});
+
+Deno.test("modules", () => {
+  const dbModule = defineModule("db")
+    .requires<{ url: string }>()
+    .add("db", (store) => ({ url: store.get("url") }))
+    .addToCollection("healthChecks", () => "db");
+  const userModule = defineModule("users")
+    .requires<{ db: { url: string } }>()
+    .add("userService", (store) => ({ db: store.get("db") }))
+    .addToCollection("healthChecks", () => "users");
+  const definition = defineStore()
+    .add("url", () => "postgres://localhost")
+    .use(dbModule)
+    .use(userModule);
+  const store = definition.finalize();
+  assertEquals(store.get("userService").db.url, "postgres://localhost");
+  assertEquals(store.get("healthChecks"), ["db", "users"]);
+
+  // @ts-expect-error missing the db the module requires
+  defineStore().use(userModule);
+  // @ts-expect-error the required url has another type
+  defineStore().add("url", () => 1).use(dbModule);
+
+  const otherDbModule = defineModule("other db")
+    .add("db", () => ({ url: "sqlite://memory" }));
+  assertThrows(
+    () => definition.use(otherDbModule),
+    Error,
+    'Service "db" from module "other db" is already defined by module "db".',
+  );
+  assertThrows(
+    () => defineStore().add("db", () => ({})).use(otherDbModule),
+    Error,
+    'Service "db" from module "other db" is already defined.',
+  );
+});
+
+Deno.test("declared dependencies", () => {
+  const definition = defineStore()
+    .add("db", () => ({ name: "db" }))
+    .add("logger", () => ({ prefix: "[app]" }))
+    .add("repo", {
+      deps: ["db", "logger"],
+      factory: ({ db, logger }) => ({ name: `${logger.prefix} ${db.name}` }),
+    })
+    .addTransient("request", {
+      deps: ["repo"],
+      factory: ({ repo }, store) => ({ repo, db: store.get("db") }),
+    });
+  // declared dependencies are known before the services are created
+  assertEquals(definition.graph().edges, [
+    { from: "repo", to: "db" },
+    { from: "repo", to: "logger" },
+    { from: "request", to: "repo" },
+  ]);
+  const store = definition.finalize();
+  assertEquals(store.get("request").repo.name, "[app] db");
+  assert(store.get("request") !== store.get("request"));
+  definition.validate();
+
+  defineStore().add("repo", {
+    // @ts-expect-error missing dependency
+    deps: ["db"],
+    factory: () => ({}),
+  });
+});
+
+Deno.test("validate reports every problem", () => {
+  const parentStore = defineStore()
+    .add("db", () => ({}))
+    .finalize();
+  const definition = parentStore.createChild()
+    .add("a", { deps: ["b", "db"] as any, factory: () => ({}) })
+    .add("b", { deps: ["a"] as any, factory: () => ({}) })
+    .add("c", { deps: ["dbb", "logger"] as any, factory: () => ({}) });
+  const err = assertThrows(() => definition.validate(), StoreValidationError);
+  assertEquals(err.errors.map((err) => err.message), [
+    "Store did not contain key: dbb (c -> dbb). Did you mean: db?",
+    "Store did not contain key: logger (c -> logger)",
+    "Circular dependency detected: a -> b -> a",
+  ]);
+  assert(err.errors[0] instanceof MissingServiceError);
+  assert(err.errors[2] instanceof CircularDependencyError);
+  assertThrows(() => definition.finalize(), StoreValidationError);
+});
+
+Deno.test("tryGet", () => {
+  const metricsModule = defineModule("metrics")
+    .requires<{ metrics?: { count: number } }>()
+    .add("counter", (store) => ({ metrics: store.tryGet("metrics") }));
+  const store = defineStore()
+    .add("db", () => ({ name: "db" }))
+    .use(metricsModule)
+    .finalize();
+  assertEquals(store.tryGet("db"), { name: "db" });
+  assertEquals(store.get("counter").metrics, undefined);
+  const childStore = store.createChild()
+    .add("metrics", () => ({ count: 1 }))
+    .finalize();
+  assertEquals(childStore.tryGet("metrics"), { count: 1 });
+
+  const failingStore = defineStore()
+    .add("db", () => {
+      throw new Error("failed");
+    })
+    .finalize();
+  assertThrows(() => failingStore.tryGet("db"), ServiceFactoryError);
+});
+
+Deno.test("optional services", () => {
+  const definition = defineStore()
+    .addOptional("metrics", () => ({ name: "noop metrics" }))
+    .addOptional<"flags", { enabled: boolean }>("flags")
+    .add("checkout", (store) => ({
+      metrics: store.get("metrics"),
+      flags: store.get("flags"),
+    }));
+  const store = definition.finalize();
+  assertEquals(store.get("checkout"), {
+    metrics: { name: "noop metrics" },
+    flags: undefined,
+  });
+  const _typeCheck = () => {
+    // @ts-expect-error flags might not be provided
+    store.get("flags").enabled;
+  };
+
+  const providedStore = definition
+    .add("flags", () => ({ enabled: true }))
+    .finalize();
+  assertEquals(providedStore.get("checkout").flags?.enabled, true);
+  assertEquals(providedStore.get("flags").enabled, true);
+
+  const childStore = store.createChild()
+    .add("metrics", () => ({ name: "metrics" }))
+    .add("report", (store) => ({ metrics: store.get("metrics") }))
+    .finalize();
+  assertEquals(childStore.get("report").metrics.name, "metrics");
+  // services in the parent keep the fallback
+  assertEquals(childStore.get("checkout").metrics.name, "noop metrics");
+
+  assertThrows(
+    () => definition.add("checkout", () => ({})),
+    Error,
+    "Service already defined: checkout",
+  );
+});
+
+Deno.test("tokens", () => {
+  interface Logger {
+    log(message: string): string;
+  }
+  const loggerToken = createToken<Logger>("logger");
+  const otherLoggerToken = createToken<Logger>("logger");
+  const definition = defineStore()
+    .add("logger", () => "string logger")
+    .add(loggerToken, () => ({ log: (message) => `[app] ${message}` }))
+    .add(otherLoggerToken, () => ({ log: (message) => `[lib] ${message}` }));
+  const store = definition.finalize();
+  assertEquals(store.get("logger"), "string logger");
+  assertEquals(store.get(loggerToken).log("hi"), "[app] hi");
+  assertEquals(store.get(otherLoggerToken).log("hi"), "[lib] hi");
+  assert(store.has(loggerToken));
+  assert(!store.has(createToken<Logger>("logger")));
+
+  const childStore = store.createChild()
+    .add("service", (store) => ({ logger: store.get(loggerToken) }))
+    .override(otherLoggerToken, () => ({ log: () => "mock" }))
+    .finalize();
+  assertEquals(childStore.get("service").logger.log("hi"), "[app] hi");
+  assertEquals(childStore.get(otherLoggerToken).log("hi"), "mock");
+  // tokens with the same description are separate nodes in the graph
+  const graph = childStore.graph();
+  assertEquals(
+    graph.services.map((node) => [node.label ?? node.key, node.overridden]),
+    [["logger", false], ["logger", false], ["logger", true], [
+      "service",
+      false,
+    ]],
+  );
+  // numbered in registration order, the same on every call
+  assertEquals(
+    graph.services.map((node) => node.key),
+    ["logger", "logger#1", "logger#2", "service"],
+  );
+  assertEquals(graph.edges, [{ from: "service", to: "logger#1" }]);
+  assertEquals(childStore.graph(), graph);
+
+  const _typeCheck = () => {
+    // @ts-expect-error must create a logger
+    defineStore().add(loggerToken, () => 1);
+  };
+  const missingToken = createToken<Logger>("missingLogger");
+  assertThrows(
+    () => store.get(missingToken),
+    MissingServiceError,
+    "Store did not contain key: missingLogger",
+  );
+  assertThrows(
+    () => definition.add(loggerToken, () => ({ log: () => "" })),
+    Error,
+    "Service already defined: logger",
+  );
+});
+
+Deno.test("class keys", () => {
+  abstract class Clock {
+    abstract now(): number;
+  }
+  class FixedClock extends Clock {
+    now() {
+      return 1;
+    }
+  }
+  class Scheduler {
+    constructor(readonly clock: Clock) {}
+  }
+  const store = defineStore()
+    .add(Clock, () => new FixedClock())
+    .add(Scheduler, (store) => new Scheduler(store.get(Clock)))
+    .finalize();
+  assertEquals(store.get(Scheduler).clock.now(), 1);
+  assert(store.get(Clock) === store.get(Scheduler).clock);
+  assertEquals(store.graph().services.map((node) => node.label), [
+    "Clock",
+    "Scheduler",
+  ]);
+
+  class Missing {}
+  assertThrows(
+    () => store.get(Missing),
+    MissingServiceError,
+    "Store did not contain key: Missing",
+  );
+  const _typeCheck = () => {
+    // @ts-expect-error must create a scheduler
+    defineStore().add(Scheduler, () => new FixedClock());
+  };
+});
+
+Deno.test("values", () => {
+  let disposed = false;
+  const value = {
+    [Symbol.dispose]() {
+      disposed = true;
+    },
+  };
+  {
+    using store = defineStore()
+      .addValue("startedAt", new Date(0))
+      .addValue("client", value)
+      .finalize();
+    assertEquals(store.get("startedAt").getTime(), 0);
+    assert(store.get("client") === value);
+  }
+  // the store didn't create it, so it isn't disposed
+  assert(!disposed);
+});
+
+Deno.test("config", () => {
+  const definition = defineStore()
+    .addConfig("db", {
+      from: fromObject({ url: "postgres://localhost", poolSize: "5" }),
+      schema: {
+        url: field.string(),
+        poolSize: field.number(),
+        ssl: field.boolean().default(false),
+        schema: field.string().optional(),
+      },
+    })
+    .addConfig("http", {
+      from: fromObject({ port: "8O80", mode: "staging" }),
+      schema: {
+        port: field.number(),
+        mode: field.enum(["development", "production"]),
+        host: field.string(),
+      },
+    });
+  const store = definition.finalize();
+  const db: {
+    url: string;
+    poolSize: number;
+    ssl: boolean;
+    schema: string | undefined;
+  } = store.get("db");
+  assertEquals(db, {
+    url: "postgres://localhost",
+    poolSize: 5,
+    ssl: false,
+    schema: undefined,
+  });
+  const err = assertThrows(() => store.get("http"), ServiceFactoryError);
+  assert(err.cause instanceof ConfigValidationError);
+  assertEquals(
+    err.cause.message,
+    [
+      "Invalid config:",
+      '  - http.port: expected a number, got "8O80" (port)',
+      '  - http.mode: expected one of "development", "production", got "staging" (mode)',
+      "  - http.host: is required (host)",
+    ].join("\n"),
+  );
+
+  const overriddenStore = definition
+    .overrideConfig("db", { poolSize: 1 })
+    .overrideConfig("http", { port: 8080, mode: "production", host: "::" })
+    .finalize();
+  assertEquals(overriddenStore.get("db").poolSize, 1);
+  assertEquals(overriddenStore.get("db").url, "postgres://localhost");
+  assertEquals(overriddenStore.get("http").port, 8080);
+
+  const eagerDefinition = definition.addConfig("cache", {
+    from: fromObject({}),
+    schema: { url: field.string(), ttlMs: field.number() },
+    eager: true,
+  });
+  // inspecting the definition doesn't load configs
+  eagerDefinition.validate();
+  assertEquals(
+    eagerDefinition.graph().services.map((node) => node.key),
+    ["db", "http", "cache"],
+  );
+  const eagerErr = assertThrows(
+    () => eagerDefinition.finalize(),
+    ConfigValidationError,
+  );
+  assertEquals(eagerErr.issues, [
+    { key: "cache.url", message: "is required (url)" },
+    { key: "cache.ttlMs", message: "is required (ttlMs)" },
+  ]);
+  eagerDefinition
+    .overrideConfig("cache", { url: "redis://localhost", ttlMs: 10 })
+    .finalize();
+
+  // describing doesn't read the environment
+  assertEquals(
+    fromEnv({ prefix: "TEST_CACHE_" }).describe("ttlMs"),
+    "env TEST_CACHE_TTL_MS",
+  );
+});
+
 Deno.test("override with async service", async () => {
   const storeDef = defineStore()
     .add("async", async () => {
@@ -374,6 +1404,43 @@ Deno.test("override with async service", async () => {
   assertEquals(result.value, "mocked");
 });
 
+Deno.test("decorate a parent's resolved async service", async () => {
+  const parent = defineStore()
+    .addAsync("db", () => Promise.resolve({ name: "db", decorated: false }))
+    .finalize();
+  const db = await parent.resolve("db");
+  const child = parent.createChild()
+    .decorate("db", (db) => ({ ...db, decorated: true }))
+    .finalize();
+  assertEquals(await child.resolve("db"), { name: "db", decorated: true });
+  assertEquals(child.get("db").decorated, true);
+  assert(parent.get("db") === db);
+});
+
+Deno.test("override async service with a value", async () => {
+  const store = defineStore()
+    .addAsync("db", async () => {
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      return { name: "real db" };
+    })
+    .override("db", () => ({ name: "mock db" }))
+    .finalize();
+  assertEquals((await store.resolve("db")).name, "mock db");
+  assertEquals(store.get("db").name, "mock db");
+
+  const failing = defineStore()
+    .addAsync("db", () => Promise.resolve(1))
+    .override("db", () => {
+      throw new Error("no db");
+    })
+    .finalize();
+  await assertRejects(
+    () => failing.resolve("db"),
+    ServiceFactoryError,
+    "Failed creating service: db: no db",
+  );
+});
+
 Deno.test("override should take precedence over memorized values", async () => {
   let syncOriginalCallCount = 0;
   let syncOverrideCallCount = 0;
@@ -491,3 +1558,661 @@ Deno.test("override should work with child stores and memorized values", () => {
   assertEquals(parentResultAgain.value, "parent");
   assertEquals(parentCallCount, 1); // Still no additional calls
 });
+
+Deno.test("circular dependency", () => {
+  const store = defineStore()
+    .add("a", (store): number => (store as Store<any>).get("b"))
+    .add("b", (store) => store.get("a"))
+    .add("c", (store) => store.get("b"))
+    .finalize();
+
+  const err = assertThrows(
+    () => store.get("c"),
+    CircularDependencyError,
+    "Circular dependency detected: c -> b -> a -> b",
+  );
+  assertEquals(err.path, ["c", "b", "a", "b"]);
+
+  // the store is still usable afterwards
+  assertThrows(
+    () => store.get("a"),
+    CircularDependencyError,
+    "Circular dependency detected: a -> b -> a",
+  );
+});
+
+Deno.test("circular dependency - self reference", () => {
+  const store = defineStore()
+    .add("a", (store): number => (store as Store<any>).get("a"))
+    .finalize();
+  assertThrows(
+    () => store.get("a"),
+    CircularDependencyError,
+    "Circular dependency detected: a -> a",
+  );
+});
+
+Deno.test("circular dependency - async factories", async () => {
+  const store = defineStore()
+    .add("a", async (store): Promise<number> => {
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      return await (store as Store<any>).get("b");
+    })
+    .add("b", async (store) => {
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      return await store.get("a");
+    })
+    .finalize();
+  await assertRejects(
+    () => store.get("a"),
+    CircularDependencyError,
+    "Circular dependency detected: a -> b -> a",
+  );
+});
+
+Deno.test("circular dependency - across parent store", () => {
+  const parentStore = defineStore()
+    .add("x", (store): number => (store as Store<any>).get("y"))
+    .add("y", (store) => store.get("x"))
+    .finalize();
+  const childStore = parentStore.createChild()
+    .add("c", (store) => store.get("x"))
+    .finalize();
+  assertThrows(
+    () => childStore.get("c"),
+    CircularDependencyError,
+    "Circular dependency detected: c -> x -> y -> x",
+  );
+});
+
+Deno.test("lazy", () => {
+  let expensiveCreatedTimes = 0;
+  const store = defineStore()
+    .add("expensive", () => {
+      expensiveCreatedTimes++;
+      return { value: 5 };
+    })
+    .add("parent", (store): { child: Lazy<{ parent: unknown }> } => ({
+      child: (store as Store<any>).lazy("child"),
+    }))
+    .add("child", (store) => ({ parent: store.get("parent") }))
+    .add("service", (store) => ({ expensive: store.lazy("expensive") }))
+    .finalize();
+
+  const service = store.get("service");
+  assertEquals(expensiveCreatedTimes, 0);
+  assertEquals(service.expensive.isCreated, false);
+  assertEquals(service.expensive.value.value, 5);
+  assert(service.expensive.value === store.get("expensive"));
+  assertEquals(service.expensive.isCreated, true);
+  assertEquals(expensiveCreatedTimes, 1);
+
+  // services can reference each other without a circular dependency error
+  const parent = store.get("parent");
+  assert(parent.child.value.parent === parent);
+
+  assertThrows(
+    // @ts-expect-error "expensiv" is not in the store
+    () => store.lazy("expensiv"),
+    MissingServiceError,
+    "Did you mean: expensive?",
+  );
+});
+
+Deno.test("store captured by a factory can be used after creation", () => {
+  const store = defineStore()
+    .addTransient("a", (store) => ({
+      getB: (): { a: unknown } => (store as Store<any>).get("b"),
+    }))
+    .add("b", (store) => ({ a: store.get("a") }))
+    .finalize();
+  const b = store.get("a").getB();
+  assert(b.a != null);
+});
+
+Deno.test("missing service error", () => {
+  const parentStore = defineStore()
+    .add("db", () => ({}))
+    .finalize();
+  const store = parentStore.createChild()
+    .add("imageCache", (store) => ({ db: (store as Store<any>).get("dbb") }))
+    .add("userService", (store) => ({ cache: store.get("imageCache") }))
+    .finalize();
+
+  const err = assertThrows(
+    () => store.get("userService"),
+    MissingServiceError,
+    "Store did not contain key: dbb (userService -> imageCache -> dbb). Did you mean: db?",
+  );
+  assertEquals(err.key, "dbb");
+  assertEquals(err.path, ["userService", "imageCache", "dbb"]);
+  assertEquals(err.storeLevel, 1);
+  assertEquals(err.suggestions, ["db"]);
+});
+
+Deno.test("service factory error", async () => {
+  const cause = new Error("connection refused");
+  const store = defineStore()
+    .add("db", (): { query(): void } => {
+      throw cause;
+    })
+    .add("asyncDb", () => Promise.reject(cause))
+    .add("userService", (store) => ({ db: store.get("db") }))
+    .finalize();
+
+  const err = assertThrows(
+    () => store.get("userService"),
+    ServiceFactoryError,
+    "Failed creating service: db (userService -> db): connection refused",
+  );
+  assertEquals(err.key, "db");
+  assertEquals(err.path, ["userService", "db"]);
+  assertEquals(err.storeLevel, 0);
+  assertEquals(err.cause, cause);
+
+  const asyncErr = await assertRejects(
+    () => store.get("asyncDb"),
+    ServiceFactoryError,
+    "Failed creating service: asyncDb: connection refused",
+  );
+  assertEquals(asyncErr.cause, cause);
+});
+
+Deno.test("graph", () => {
+  const parentStore = defineStore()
+    .add("db", () => ({}))
+    .add("config", () => ({}))
+    .finalize();
+  const childDef = parentStore.createChild()
+    .addTransient("imageCache", (store) => ({ db: store.get("db") }))
+    .add("userService", (store) => ({
+      imageCache: store.get("imageCache"),
+      db: store.get("db"),
+    }))
+    .override("config", () => ({ mocked: true }));
+
+  assertEquals(childDef.graph(), {
+    services: [
+      { key: "db", lifetime: "singleton", overridden: false, storeLevel: 0 },
+      { key: "config", lifetime: "singleton", overridden: true, storeLevel: 1 },
+      {
+        key: "imageCache",
+        lifetime: "transient",
+        overridden: false,
+        storeLevel: 1,
+      },
+      {
+        key: "userService",
+        lifetime: "singleton",
+        overridden: false,
+        storeLevel: 1,
+      },
+    ],
+    edges: [],
+  });
+
+  const store = childDef.finalize();
+  store.get("userService");
+  const graph = store.graph();
+  assertEquals(graph.edges, [
+    { from: "imageCache", to: "db" },
+    { from: "userService", to: "imageCache" },
+    { from: "userService", to: "db" },
+  ]);
+
+  assertEquals(JSON.parse(graphToJson(graph)).edges, [
+    { from: "imageCache", to: "db" },
+    { from: "userService", to: "db" },
+    { from: "userService", to: "imageCache" },
+  ]);
+  assertEquals(
+    graphToDot(graph),
+    `digraph services {
+  subgraph cluster_0 {
+    label="store level 0";
+    "db" [label="db\\nsingleton"];
+  }
+  subgraph cluster_1 {
+    label="store level 1";
+    "config" [label="config\\nsingleton, overridden", color=orange];
+    "imageCache" [label="imageCache\\ntransient", style=dashed];
+    "userService" [label="userService\\nsingleton"];
+  }
+  "imageCache" -> "db";
+  "userService" -> "db";
+  "userService" -> "imageCache";
+}
+`,
+  );
+  assertEquals(
+    graphToMermaid(graph),
+    `flowchart TD
+  subgraph level0["store level 0"]
+    s0["db (singleton)"]
+  end
+  subgraph level1["store level 1"]
+    s1["config (singleton, overridden)"]
+    s2["imageCache (transient)"]
+    s3["userService (singleton)"]
+  end
+  s2 --> s0
+  s3 --> s0
+  s3 --> s2
+`,
+  );
+});
+
+Deno.test("initialize", async () => {
+  let transientCreatedTimes = 0;
+  let running = 0;
+  let maxRunning = 0;
+  const asyncFactory = async () => {
+    running++;
+    maxRunning = Math.max(maxRunning, running);
+    await new Promise((resolve) => setTimeout(resolve, 1));
+    running--;
+    return {};
+  };
+  const store = defineStore()
+    .add("A", asyncFactory)
+    .add("B", asyncFactory)
+    .add("C", asyncFactory)
+    .add("D", () => ({}))
+    .addTransient("E", () => {
+      transientCreatedTimes++;
+      return {};
+    })
+    .finalize();
+
+  const report = await store.initialize({ concurrency: 2 });
+  assertEquals(report.created.map((s) => s.key), ["A", "B", "D", "C"]);
+  assertEquals(report.failed, []);
+  assertEquals(maxRunning, 2);
+  assertEquals(transientCreatedTimes, 0);
+
+  const childStore = store.createChild()
+    .add("F", () => ({}))
+    .finalize();
+  const scopedChildStore = defineStore()
+    .add("A", () => ({}))
+    .addScoped("B", () => ({}))
+    .finalize()
+    .createChild()
+    .add("C", () => ({}))
+    .finalize();
+  assertEquals(
+    (await childStore.initialize()).created.map((s) => s.key),
+    ["F"],
+  );
+  assertEquals(
+    (await scopedChildStore.initialize()).created.map((s) => s.key),
+    ["C", "B"],
+  );
+});
+
+Deno.test("initialize failure disposes created services", async () => {
+  let disposeCount = 0;
+  const cause = new Error("db down");
+  const store = defineStore()
+    .add("cache", () => ({
+      [Symbol.dispose]() {
+        disposeCount++;
+      },
+    }))
+    .add("db", async (): Promise<object> => {
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      throw cause;
+    })
+    .finalize();
+
+  const err = await assertRejects(
+    () => store.initialize(),
+    StoreInitializationError,
+    "Failed initializing store: db",
+  );
+  assertEquals(err.report.created.map((s) => s.key), ["cache"]);
+  assertEquals(err.report.failed.map((s) => s.key), ["db"]);
+  assert(err.errors[0] instanceof ServiceFactoryError);
+  assertEquals(err.errors[0].cause, cause);
+  assertEquals(disposeCount, 1);
+});
+
+Deno.test("check health", async () => {
+  const cause = new Error("connection refused");
+  let dbHealthy = true;
+  const definition = defineStore()
+    .add("db", () => ({ healthy: () => dbHealthy }), {
+      healthCheck: (db) => db.healthy(),
+    })
+    .add("cache", () => ({
+      [healthCheckSymbol]() {
+        return new Promise((resolve) => setTimeout(resolve, 1));
+      },
+    }))
+    .add("queue", () => ({
+      [healthCheckSymbol]: () => Promise.reject(cause),
+    }))
+    .add("mailer", () => ({}), { healthCheck: () => {} })
+    .add("plain", () => ({}))
+    .addScoped("request", () => ({}), { healthCheck: () => {} });
+  let mailerCreated = false;
+  const store = definition
+    .override("mailer", () => {
+      mailerCreated = true;
+      return {};
+    })
+    .finalize();
+  store.get("db");
+  store.get("cache");
+  store.get("plain");
+
+  let report = await store.checkHealth();
+  assertEquals(report.status, "healthy");
+  assertEquals(
+    report.services.map((s) => [s.key, s.status]),
+    [["db", "healthy"], ["cache", "healthy"], ["mailer", "not-created"], [
+      "request",
+      "not-created",
+    ]],
+  );
+  assert(report.services[1].latencyMs! >= 0);
+  assertEquals(report.services[2].latencyMs, undefined);
+  assertEquals(mailerCreated, false);
+
+  dbHealthy = false;
+  store.get("queue");
+  report = await store.checkHealth();
+  assertEquals(report.status, "unhealthy");
+  const byKey = new Map(report.services.map((s) => [s.key, s]));
+  assertEquals(byKey.get("db")!.status, "unhealthy");
+  assertEquals(byKey.get("db")!.error, undefined);
+  assertEquals(byKey.get("queue")!.status, "unhealthy");
+  assertEquals(byKey.get("queue")!.error, cause);
+
+  // timeouts
+  const slowStore = defineStore()
+    .add("slow", () => ({
+      [healthCheckSymbol]: () =>
+        new Promise((resolve) => setTimeout(resolve, 50)),
+    }))
+    .finalize();
+  slowStore.get("slow");
+  report = await slowStore.checkHealth({ timeoutMs: 1 });
+  assertEquals(report.status, "unhealthy");
+  assertEquals(
+    (report.services[0].error as Error).message,
+    "Health check timed out after 1ms.",
+  );
+  // let the check finish so the timer doesn't leak
+  await new Promise((resolve) => setTimeout(resolve, 60));
+
+  // parents are only included when requested
+  const child = store.createChild().add("session", () => ({}), {
+    healthCheck: () => {},
+  }).finalize();
+  child.get("request");
+  assertEquals(
+    (await child.checkHealth()).services.map((s) => [s.key, s.status]),
+    [["session", "not-created"], ["request", "healthy"]],
+  );
+  report = await child.checkHealth({ includeParents: true });
+  assertEquals(
+    report.services.map((s) => [s.key, s.storeLevel]),
+    [
+      ["session", 1],
+      ["request", 1],
+      ["db", 0],
+      ["cache", 0],
+      ["queue", 0],
+      ["mailer", 0],
+      ["request", 0],
+    ],
+  );
+});
+
+Deno.test("expiring memoized values", async () => {
+  let now = 0;
+  const disposed: string[] = [];
+  const events: RefreshEvent[] = [];
+  let tokenCount = 0;
+  const store = defineStore({ clock: { now: () => now } })
+    .add("token", () => {
+      const id = `token${++tokenCount}`;
+      return {
+        id,
+        revoked: false,
+        [Symbol.dispose]() {
+          disposed.push(id);
+        },
+      };
+    }, { ttlMs: 100 })
+    .add("client", (store) => ({ token: store.get("token").id }))
+    .add(
+      "session",
+      (store) => ({ token: store.get("token"), revoked: false }),
+      {
+        shouldRefresh: (entry) => entry.value.revoked,
+      },
+    )
+    .finalize();
+  store.onRefresh((event) => events.push(event));
+
+  assertEquals(store.get("client").token, "token1");
+  now = 99;
+  assertEquals(store.get("client").token, "token1");
+  now = 100;
+  assertEquals(store.get("token").id, "token2");
+  assertEquals(store.get("client").token, "token2");
+  await Promise.resolve();
+  assertEquals(disposed, ["token1"]);
+  assertEquals(events, [{
+    key: "token",
+    invalidated: ["token", "client"],
+    storeLevel: 0,
+    expired: true,
+  }]);
+
+  // dependents don't keep an expired value
+  now = 200;
+  assertEquals(store.get("client").token, "token3");
+  await Promise.resolve();
+  assertEquals(disposed, ["token1", "token2"]);
+
+  // custom policy
+  const session = store.get("session");
+  assertEquals(store.get("session"), session);
+  session.revoked = true;
+  assert(store.get("session") !== session);
+  assertEquals(store.get("session").revoked, false);
+});
+
+Deno.test("options don't leak between registrations of a function", async () => {
+  let now = 0;
+  const create = () => ({});
+  const createAsync = () => Promise.resolve({});
+  const store = defineStore({ clock: { now: () => now } })
+    .add("a", create, { ttlMs: 10 })
+    .add("b", create)
+    .addAsync("c", createAsync)
+    .add("d", createAsync)
+    .finalize();
+  const b = store.get("b");
+  now = 10;
+  assert(store.get("b") === b);
+  assert(store.get("d") instanceof Promise);
+  await store.resolve("c");
+});
+
+Deno.test("expiring async memoized values", async () => {
+  let now = 0;
+  const disposed: number[] = [];
+  const disposeErrors: unknown[] = [];
+  let version = 0;
+  let fail = false;
+  const store = defineStore({
+    clock: { now: () => now },
+    onDisposeError: (err) => disposeErrors.push(err),
+  })
+    .addAsync("remoteConfig", async () => {
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      if (fail) {
+        throw new Error("unreachable");
+      }
+      const current = ++version;
+      return {
+        version: current,
+        async [Symbol.asyncDispose]() {
+          await Promise.resolve();
+          disposed.push(current);
+          throw new Error(`failed disposing ${current}`);
+        },
+      };
+    }, { ttlMs: 10 })
+    .finalize();
+
+  assertEquals((await store.resolve("remoteConfig")).version, 1);
+  now = 10;
+  // a single new value is created for every caller
+  const pending = [
+    store.resolve("remoteConfig"),
+    store.resolve("remoteConfig"),
+  ];
+  // the expired value is kept until the new one is created
+  assertEquals(store.get("remoteConfig").version, 1);
+  const values = await Promise.all(pending);
+  assertEquals(values.map((value) => value.version), [2, 2]);
+  assertEquals(store.get("remoteConfig").version, 2);
+  await new Promise((resolve) => setTimeout(resolve, 1));
+  assertEquals(disposed, [1]);
+  assertEquals(
+    disposeErrors.map((err) => (err as Error).message),
+    ["failed disposing 1"],
+  );
+
+  // the expired value is kept when creating the new one fails
+  now = 20;
+  fail = true;
+  await assertRejects(
+    () => store.resolve("remoteConfig"),
+    Error,
+    "unreachable",
+  );
+  assertEquals(store.get("remoteConfig").version, 2);
+  fail = false;
+  assertEquals((await store.resolve("remoteConfig")).version, 3);
+});
+
+Deno.test("factory context", async () => {
+  const contexts: [PropertyKey, readonly PropertyKey[], boolean][] = [];
+  const store = defineStore()
+    .add("config", (_store, context) => {
+      contexts.push([context.name, context.path, context.signal.aborted]);
+      return { url: "db://" };
+    })
+    .add("db", {
+      deps: ["config"],
+      factory: ({ config }, _store, context) => {
+        contexts.push([context.name, context.path, context.signal.aborted]);
+        return config.url;
+      },
+    })
+    .addAsync("client", async (store, context) => {
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      contexts.push([context.name, context.path, context.signal.aborted]);
+      return store.get("db");
+    })
+    .finalize();
+  assertEquals(await store.resolve("client"), "db://");
+  assertEquals(contexts, [
+    ["client", ["client"], false],
+    ["config", ["client", "db", "config"], false],
+    ["db", ["client", "db"], false],
+  ]);
+});
+
+Deno.test("factory timeouts", async () => {
+  const disposed: string[] = [];
+  const signals: AbortSignal[] = [];
+  const release = new Map<string, () => void>();
+  let onDisposed = () => {};
+  const service = (name: string) => ({
+    name,
+    [Symbol.dispose]() {
+      disposed.push(name);
+      onDisposed();
+    },
+  });
+  // resolves once released, well after any timeout
+  function slow(name: string) {
+    return (_store: unknown, context: { signal: AbortSignal }) => {
+      signals.push(context.signal);
+      return new Promise<{ name: string } & Disposable>((resolve) =>
+        release.set(name, () => resolve(service(name)))
+      );
+    };
+  }
+  const store = defineStore({ factoryTimeoutMs: 5 })
+    .addAsync("db", slow("db"), { timeoutMs: 1 })
+    .addAsync("cache", slow("cache"))
+    .addAsync("queue", (_store, context) => {
+      signals.push(context.signal);
+      return new Promise<{ name: string } & Disposable>((resolve) =>
+        setTimeout(() => resolve(service("queue")), 10)
+      );
+    }, { timeoutMs: 5000 })
+    .finalize();
+
+  const err = await assertRejects(
+    () => store.resolve("db"),
+    ServiceFactoryError,
+    "Failed creating service: db: Factory timed out after 1ms.",
+  );
+  assertEquals((err.cause as DOMException).name, "TimeoutError");
+  assert(signals[0].aborted);
+  await assertRejects(
+    () => store.resolve("cache"),
+    ServiceFactoryError,
+    "Factory timed out after 5ms.",
+  );
+  assertEquals((await store.resolve("queue")).name, "queue");
+  assertEquals(signals[2].aborted, false);
+
+  // values resolved after the timeout are disposed
+  const bothDisposed = new Promise<void>((resolve) => {
+    onDisposed = () => {
+      if (disposed.length === 2) {
+        resolve();
+      }
+    };
+  });
+  release.get("db")!();
+  release.get("cache")!();
+  await bothDisposed;
+  assertEquals(disposed.toSorted(), ["cache", "db"]);
+});
+
+Deno.test("disposing aborts pending factories", async () => {
+  const disposed: string[] = [];
+  let signal: AbortSignal | undefined;
+  const store = defineStore()
+    .addAsync("db", (_store, context) => {
+      signal = context.signal;
+      return new Promise<Disposable>((resolve) =>
+        setTimeout(() =>
+          resolve({
+            [Symbol.dispose]() {
+              disposed.push("db");
+            },
+          }), 5)
+      );
+    })
+    .finalize();
+  const pending = store.resolve("db");
+  store[Symbol.dispose]();
+  assert(signal!.aborted);
+  const err = await assertRejects(() => pending, ServiceFactoryError);
+  assertEquals((err.cause as DOMException).name, "AbortError");
+  assertEquals(disposed, []);
+  await new Promise((resolve) => setTimeout(resolve, 10));
+  assertEquals(disposed, ["db"]);
+});
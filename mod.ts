@@ -25,13 +25,830 @@ OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
 SOFTWARE.
  */
 
+import {
+  type ConfigIssue,
+  type ConfigOf,
+  type ConfigSchema,
+  type ConfigSource,
+  ConfigValidationError,
+  loadConfig,
+} from "./config.ts";
+import {
+  type HealthCheck,
+  type HealthCheckOptions,
+  healthCheckSymbol,
+  type HealthReport,
+  runHealthCheck,
+  type ServiceHealth,
+} from "./health.ts";
+import type {
+  ServiceEdge,
+  ServiceGraph,
+  ServiceLifetime,
+  ServiceNode,
+} from "./graph.ts";
+
+export * from "./config.ts";
+export * from "./graph.ts";
+export * from "./health.ts";
+
+/**
+ * Error thrown when a service depends on itself, either directly or
+ * through other services.
+ */
+export class CircularDependencyError extends Error {
+  /**
+   * The services being resolved when the cycle was found, ending with
+   * the service that was requested a second time.
+   */
+  readonly path: readonly PropertyKey[];
+
+  /** @ignore */
+  constructor(path: readonly PropertyKey[]) {
+    super(`Circular dependency detected: ${formatPath(path)}`);
+    this.name = "CircularDependencyError";
+    this.path = path;
+  }
+}
+
+/** Error thrown when a requested service is not in the store or any parent. */
+export class MissingServiceError extends Error {
+  /** The key that was requested. */
+  readonly key: PropertyKey;
+  /** The services being resolved, ending with the missing key. */
+  readonly path: readonly PropertyKey[];
+  /**
+   * Level of the store the lookup started in, where `0` is a store
+   * without a parent. That store and each parent above it were searched.
+   */
+  readonly storeLevel: number;
+  /** Known keys that are spelled similarly to the requested key. */
+  readonly suggestions: readonly PropertyKey[];
+
+  /** @ignore */
+  constructor(
+    key: PropertyKey,
+    path: readonly PropertyKey[],
+    storeLevel: number,
+    suggestions: readonly PropertyKey[],
+  ) {
+    let message = `Store did not contain key: ${describeKey(key)}`;
+    if (path.length > 1) {
+      message += ` (${formatPath(path)})`;
+    }
+    if (suggestions.length > 0) {
+      message += `. Did you mean: ${suggestions.map(describeKey).join(", ")}?`;
+    }
+    super(message);
+    this.name = "MissingServiceError";
+    this.key = key;
+    this.path = path;
+    this.storeLevel = storeLevel;
+    this.suggestions = suggestions;
+  }
+}
+
+/**
+ * Error thrown when a service's factory throws or its promise rejects.
+ * The original error is available as `cause`.
+ */
+export class ServiceFactoryError extends Error {
+  /** The key of the service whose factory failed. */
+  readonly key: PropertyKey;
+  /** The services being resolved, ending with the failed service. */
+  readonly path: readonly PropertyKey[];
+  /** Level of the store that owns the factory, where `0` is a root store. */
+  readonly storeLevel: number;
+
+  /** @ignore */
+  constructor(
+    key: PropertyKey,
+    path: readonly PropertyKey[],
+    storeLevel: number,
+    cause: unknown,
+  ) {
+    let message = `Failed creating service: ${describeKey(key)}`;
+    if (path.length > 1) {
+      message += ` (${formatPath(path)})`;
+    }
+    message += `: ${cause instanceof Error ? cause.message : String(cause)}`;
+    super(message, { cause });
+    this.name = "ServiceFactoryError";
+    this.key = key;
+    this.path = path;
+    this.storeLevel = storeLevel;
+  }
+}
+
+/** A service involved in a captive dependency. */
+export interface CaptiveService {
+  key: PropertyKey;
+  lifetime: ServiceLifetime;
+  /** Level of the store the service is memoized in. */
+  storeLevel: number;
+}
+
+/**
+ * Error describing a service that depends on a shorter lived service,
+ * such as a singleton depending on a scoped or transient service. The
+ * dependency would be "captured" and live as long as the dependent.
+ *
+ * Thrown when the store's `captiveDependencies` option is `"strict"`,
+ * otherwise provided to `onCaptiveDependency` in `"warn"` mode.
+ */
+export class CaptiveDependencyError extends Error {
+  /** The longer lived service. */
+  readonly dependent: CaptiveService;
+  /** The shorter lived service it resolved. */
+  readonly dependency: CaptiveService;
+  /** The services being resolved, ending with the dependency. */
+  readonly path: readonly PropertyKey[];
+
+  /** @ignore */
+  constructor(
+    dependent: CaptiveService,
+    dependency: CaptiveService,
+    path: readonly PropertyKey[],
+  ) {
+    const describe = (service: CaptiveService) =>
+      `${service.lifetime} ${
+        describeKey(service.key)
+      } (store level ${service.storeLevel})`;
+    super(
+      `Captive dependency detected: ${describe(dependent)} depends on ${
+        describe(dependency)
+      } (${formatPath(path)})`,
+    );
+    this.name = "CaptiveDependencyError";
+    this.dependent = dependent;
+    this.dependency = dependency;
+    this.path = path;
+  }
+}
+
+/** Options for a store, which are inherited by child stores. */
+export interface StoreOptions {
+  /**
+   * How to handle a service depending on a service that lives for a
+   * shorter time (ex. a singleton depending on a scoped or transient
+   * service, or a service memoized in a parent store depending on a
+   * service from a child store).
+   *
+   * - `"ignore"` - do nothing (default).
+   * - `"warn"` - report it via `onCaptiveDependency`.
+   * - `"strict"` - throw a `CaptiveDependencyError` from `get`.
+   */
+  captiveDependencies?: "ignore" | "warn" | "strict";
+  /**
+   * Called with captive dependencies in `"warn"` mode. Defaults to
+   * logging the error's message with `console.warn`.
+   */
+  onCaptiveDependency?: (error: CaptiveDependencyError) => void;
+  /**
+   * Interceptors to run around every factory call and `get`. See
+   * `StoreDefinition.intercept`.
+   */
+  interceptors?: readonly Interceptor[];
+  /**
+   * When a child store overrides a service, create the services
+   * declared in parent stores that depend on it in the child store, so
+   * they use the override instead of the parent's instance. Defaults to
+   * `false`, where parent services keep using the parent's services.
+   *
+   * @remarks Dependencies are found from the edges described in
+   * `ServiceGraph` and from declared `deps`. A parent service that
+   * hasn't been created yet and doesn't declare its `deps` is created
+   * in the child store, since what it depends on isn't known. An async
+   * parent service that's still being created is shared.
+   * Collections and parameterized factories are still shared from the
+   * parent.
+   */
+  overrideParentDependents?: boolean;
+  /**
+   * Clock used to find when memoized values expire (see the `ttlMs` and
+   * `shouldRefresh` service options). Defaults to `Date`.
+   */
+  clock?: Clock;
+  /**
+   * Called with errors thrown while disposing values in the background:
+   * expired values and values resolved by factories after they were
+   * aborted. Defaults to logging the error with `console.error`.
+   */
+  onDisposeError?: (error: unknown) => void;
+  /**
+   * Milliseconds a factory's promise can be pending for before it's
+   * aborted. Defaults to no timeout. See `ServiceOptions.timeoutMs`.
+   */
+  factoryTimeoutMs?: number;
+}
+
+/** Source of the current time in milliseconds, ex. `Date`. */
+export interface Clock {
+  now(): number;
+}
+
+/** A memoized value passed to a service's `shouldRefresh` option. */
+export interface MemoizedEntry<T> {
+  value: T;
+  /** Time the value was created at, according to the store's clock. */
+  createdAt: number;
+  /** Milliseconds since the value was created. */
+  ageMs: number;
+}
+
+/** Information about the call an `Interceptor` is running around. */
+export interface InterceptorContext {
+  /**
+   * - `"factory"` - a service's factory (or override) is being called.
+   * - `"get"` - `get` or `resolve` was called on the store.
+   */
+  kind: "factory" | "get";
+  /** Key of the service. */
+  key: PropertyKey;
+  /** Lifetime of the service, or `undefined` if it's not in the store. */
+  lifetime: ServiceLifetime | undefined;
+  /** Level of the store running the factory or handling the `get`. */
+  storeLevel: number;
+  /** The services being resolved, ending with this service. */
+  path: readonly PropertyKey[];
+}
+
+/**
+ * Middleware that runs around factory calls and `get`s. Call `next` to
+ * continue and return its result (or a replacement). The result may be
+ * a promise for async services, and errors thrown by `next` can be
+ * observed with a `try`/`catch`.
+ *
+ * ```ts
+ * const timing: Interceptor = (context, next) => {
+ *   const start = performance.now();
+ *   try {
+ *     return next();
+ *   } finally {
+ *     if (context.kind === "factory") {
+ *       console.log(`${String(context.key)}: ${performance.now() - start}ms`);
+ *     }
+ *   }
+ * };
+ * ```
+ */
+export type Interceptor = (
+  context: InterceptorContext,
+  next: () => unknown,
+) => unknown;
+
+function runInterceptors(
+  interceptors: readonly Interceptor[] | undefined,
+  context: InterceptorContext,
+  call: () => unknown,
+): unknown {
+  if (interceptors == null || interceptors.length === 0) {
+    return call();
+  }
+  // the first registered interceptor is the outermost
+  return interceptors.reduceRight<() => unknown>(
+    (next, interceptor) => () => interceptor(context, next),
+    call,
+  )();
+}
+
+/** Outcome of eagerly creating a single service via `Store.initialize`. */
+export interface InitializedService {
+  /** Key of the service. */
+  key: PropertyKey;
+  /** Milliseconds spent waiting on the service, including its dependencies. */
+  durationMs: number;
+  /** The error the service failed with, if it failed. */
+  error?: unknown;
+}
+
+/** Report returned by `Store.initialize`. */
+export interface InitializationReport {
+  /** Services that were created successfully. */
+  created: InitializedService[];
+  /** Services whose factory (or one of its dependencies) failed. */
+  failed: InitializedService[];
+  /** Total milliseconds taken to initialize the store. */
+  durationMs: number;
+}
+
+/**
+ * Error thrown by `Store.initialize` when one or more services fail to
+ * be created. The store will already have been disposed.
+ */
+export class StoreInitializationError extends AggregateError {
+  /** What was created and what failed before the store was disposed. */
+  readonly report: InitializationReport;
+
+  /** @ignore */
+  constructor(report: InitializationReport) {
+    super(
+      report.failed.map((service) => service.error),
+      `Failed initializing store: ${
+        report.failed.map((service) => describeKey(service.key)).join(", ")
+      }`,
+    );
+    this.name = "StoreInitializationError";
+    this.report = report;
+  }
+}
+
+/**
+ * Error thrown by `StoreDefinition.validate` and `finalize` with every
+ * problem found in the dependencies declared by services.
+ */
+export class StoreValidationError extends AggregateError {
+  declare readonly errors: (MissingServiceError | CircularDependencyError)[];
+
+  /** @ignore */
+  constructor(errors: (MissingServiceError | CircularDependencyError)[]) {
+    super(
+      errors,
+      `Invalid store definition:\n${
+        errors.map((err) => `  - ${err.message}`).join("\n")
+      }`,
+    );
+    this.name = "StoreValidationError";
+  }
+}
+
+function asyncNotResolvedError(name: PropertyKey): Error {
+  return new Error(
+    `Async service has not been resolved: ${describeKey(name)}. ` +
+      "Use `await store.resolve(...)` before getting it synchronously.",
+  );
+}
+
+/** If the error was already raised with resolution details by the store. */
+function isResolutionError(err: unknown): boolean {
+  return err instanceof CircularDependencyError ||
+    err instanceof CaptiveDependencyError ||
+    err instanceof MissingServiceError ||
+    err instanceof ServiceFactoryError;
+}
+
+/** Finds up to three keys that look like typos of the provided key. */
+function findSuggestions(
+  key: PropertyKey,
+  knownKeys: Iterable<PropertyKey>,
+): PropertyKey[] {
+  const target = describeKey(key).toLowerCase();
+  const maxDistance = Math.max(1, Math.floor(target.length / 3));
+  const matches = [];
+  for (const knownKey of new Set(knownKeys)) {
+    const candidate = describeKey(knownKey).toLowerCase();
+    const distance = levenshtein(target, candidate);
+    if (
+      distance <= maxDistance ||
+      (target.length >= 3 && candidate.includes(target))
+    ) {
+      matches.push({ knownKey, distance });
+    }
+  }
+  return matches
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, 3)
+    .map((m) => m.knownKey);
+}
+
+function throwDisposeErrors(errors: unknown[]) {
+  if (errors.length === 1) {
+    throw errors[0];
+  } else if (errors.length > 1) {
+    throw new AggregateError(
+      errors,
+      `Failed disposing ${errors.length} services in the store.`,
+    );
+  }
+}
+
+/**
+ * Copies a factory along with its flags, so that flags set on the copy
+ * don't affect other registrations of the same function.
+ */
+function copyFactory(factory: Function): Function {
+  return Object.assign((...args: unknown[]) => factory(...args), factory);
+}
+
+/** Gets if the value can only be disposed asynchronously. */
+function isAsyncOnlyDisposable(value: any): boolean {
+  return !(value?.[Symbol.dispose] instanceof Function) &&
+    value?.[Symbol.asyncDispose] instanceof Function;
+}
+
+function asyncDisposablesError(): Error {
+  return new Error(
+    "Cannot dispose a container containing async disposables. Use `await using` instead of `using`.",
+  );
+}
+
+/** Disposes the values in order, returning the errors that were thrown. */
+function disposeValues(values: any[]): unknown[] {
+  const errors = [];
+  for (const value of values) {
+    try {
+      if (value?.[Symbol.dispose] instanceof Function) {
+        value[Symbol.dispose]();
+      } else if (isAsyncOnlyDisposable(value)) {
+        throw asyncDisposablesError();
+      }
+    } catch (err) {
+      errors.push(err);
+    }
+  }
+  return errors;
+}
+
+/** Same as `disposeValues`, but awaits async disposables. */
+async function disposeValuesAsync(values: any[]): Promise<unknown[]> {
+  const errors = [];
+  for (const value of values) {
+    try {
+      // prefer async
+      if (value?.[Symbol.asyncDispose] instanceof Function) {
+        await value[Symbol.asyncDispose]();
+      } else if (value?.[Symbol.dispose] instanceof Function) {
+        value[Symbol.dispose]();
+      }
+    } catch (err) {
+      errors.push(err);
+    }
+  }
+  return errors;
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/** Gets the factory function of a service added in either form `add` accepts. */
+function toFactory(
+  value: Function | DeclaredFactory<any, readonly PropertyKey[], unknown>,
+): Function {
+  if (value instanceof Function) {
+    return copyFactory(value);
+  }
+  const { deps, factory } = value;
+  const declared = (store: Store<any>, context: FactoryContext) =>
+    factory(
+      Object.fromEntries(deps.map((dep) => [dep, store.get(dep)])),
+      store,
+      context,
+    );
+  (declared as any).deps = deps;
+  return declared;
+}
+
+/** How a config added via `StoreDefinition.addConfig` is loaded. */
+interface ConfigRegistration {
+  from: ConfigSource;
+  schema: ConfigSchema;
+  eager?: boolean;
+  /** Values that replace the ones from the source. */
+  values: Record<string, unknown>;
+}
+
+function createConfigFactory(
+  name: string,
+  config: ConfigRegistration,
+): () => any {
+  const factory = () =>
+    loadConfig(name, config.from, config.schema, config.values as any);
+  (factory as any).config = config;
+  return factory;
+}
+
+/** Creates the registration of a collection with the provided contributions. */
+function createCollection(contributions: Function[]): Function {
+  const collection = () => {
+    throw new Error("Collections are created by the store.");
+  };
+  (collection as any).collection = true;
+  (collection as any).contributions = contributions;
+  if (contributions.some((c) => lifetimeOf(c) === "transient")) {
+    (collection as any).transient = true;
+  }
+  return collection;
+}
+
+function lifetimeOf(factory: Function): ServiceLifetime {
+  if ((factory as any).transient) {
+    return "transient";
+  } else if ((factory as any).scoped) {
+    return "scoped";
+  } else {
+    return "singleton";
+  }
+}
+
+/** Longer lived services have a higher rank. */
+const lifetimeRank: Record<ServiceLifetime, number> = {
+  transient: 0,
+  scoped: 1,
+  singleton: 2,
+};
+
+/**
+ * Key of a function on the creators of parameterized factories that
+ * creates an instance as part of an in-flight resolution.
+ */
+const createInstanceWithFrame = Symbol("createInstanceWithFrame");
+
+/** Key of a function on stores that finds problems in declared dependencies. */
+const findDeclarationErrors = Symbol("findDeclarationErrors");
+
+/** Key of a function on stores that gets the factory a service is registered with. */
+const registeredFactoryOf = Symbol("registeredFactoryOf");
+
+/** Key of the definition holding a module's services. */
+const moduleDefinition = Symbol("moduleDefinition");
+/** Key of a module's type-only description of its services. */
+const moduleTypes = Symbol("moduleTypes");
+
+/** A service whose factory is currently running. */
+interface ResolutionFrame {
+  name: PropertyKey;
+  lifetime: ServiceLifetime;
+  /** Level of the store running the factory. */
+  storeLevel: number;
+  parent: ResolutionFrame | undefined;
+  /** Set to false once the factory (or its promise) has settled. */
+  active: boolean;
+}
+
+function framePath(frame: ResolutionFrame | undefined): PropertyKey[] {
+  const path = [];
+  while (frame != null) {
+    path.unshift(frame.name);
+    frame = frame.parent;
+  }
+  return path;
+}
+
+function formatPath(path: readonly PropertyKey[]): string {
+  return path.map(describeKey).join(" -> ");
+}
+
+/** Gets how a key is shown in messages, using the description of tokens. */
+function describeKey(key: PropertyKey): string {
+  return typeof key === "symbol" ? key.description ?? "Symbol()" : String(key);
+}
+
+/** Ids of symbol keys in graphs, which are made on first use. */
+/**
+ * Creates the function that gets the key of a service in a graph, which
+ * for tokens and classes is their description followed by a number
+ * counting the symbols with that description, in the order they're seen.
+ */
+function graphKeys(): (key: PropertyKey) => string {
+  const symbolKeys = new Map<symbol, string>();
+  const descriptionCounts = new Map<string, number>();
+  return (key) => {
+    if (typeof key !== "symbol") {
+      return String(key);
+    }
+    let graphKey = symbolKeys.get(key);
+    if (graphKey == null) {
+      const description = describeKey(key);
+      const count = (descriptionCounts.get(description) ?? 0) + 1;
+      descriptionCounts.set(description, count);
+      graphKey = `${description}#${count}`;
+      symbolKeys.set(key, graphKey);
+    }
+    return graphKey;
+  };
+}
+
+/** Removes a child store's entry from its parent once it's garbage collected. */
+const childStores = new FinalizationRegistry<{
+  children: Set<WeakRef<Store<any>>>;
+  ref: WeakRef<Store<any>>;
+}>(({ children, ref }) => children.delete(ref));
+
+/** Keys that class constructors are stored at, which are made on first use. */
+const classKeys = new WeakMap<Function, symbol>();
+
+/** Gets the key a service is stored at from a name, token or class. */
+function toKey(key: PropertyKey | Function): PropertyKey {
+  if (!(key instanceof Function)) {
+    return key;
+  }
+  let classKey = classKeys.get(key);
+  if (classKey == null) {
+    classKey = Symbol(key.name);
+    classKeys.set(key, classKey);
+  }
+  return classKey;
+}
+
+declare const tokenType: unique symbol;
+
+/**
+ * A unique key for a service of type `T`, created via `createToken`.
+ * Unlike a name, a token can't collide with other services.
+ */
+export type Token<T> = symbol & { readonly [tokenType]: T };
+
+/**
+ * A key for a service of type `T` that carries its type: a `Token` or
+ * a class, which is used for its instances (including abstract classes,
+ * for binding an implementation).
+ */
+export type ServiceKey<T> = Token<T> | (abstract new (...args: any[]) => T);
+
+/** Type a factory must create for a service at the key, or `unknown` for a name. */
+type ServiceValue<TKey> = TKey extends ServiceKey<infer T> ? T : unknown;
+
+/**
+ * Services of a definition after adding a service at the key. Tokens
+ * and classes aren't part of the services since they carry their type.
+ */
+type WithService<TServices, TKey, TType> = TKey extends string
+  ? TServices & { [P in TKey]: TType }
+  : TServices;
+
+/** A name of a service in the store, a token or a class. */
+export type StoreKey<TServices> = keyof TServices | ServiceKey<any>;
+
+/** Type of the service at a key of the store, a token or a class. */
+export type ServiceOf<TServices, TKey> = TKey extends keyof TServices
+  ? TServices[TKey]
+  : TKey extends Token<infer T> ? T
+  : TKey extends abstract new (...args: any[]) => infer T ? T
+  : never;
+
+/**
+ * Creates a token for a service of type `T`, which can be used as a key
+ * instead of a name. The description is shown in error messages.
+ *
+ * ```ts
+ * const loggerToken = createToken<Logger>("logger");
+ * const store = defineStore()
+ *   .add(loggerToken, () => new ConsoleLogger())
+ *   .finalize();
+ * const logger = store.get(loggerToken); // Logger
+ * ```
+ */
+export function createToken<T>(description: string): Token<T> {
+  return Symbol(description) as Token<T>;
+}
+
+/**
+ * Keys of the services a module requires that are missing from the
+ * services of a definition or have an incompatible type.
+ */
+type UnmetRequirements<TServices, TRequires> = {
+  [K in keyof TRequires]-?: K extends keyof TServices
+    ? TServices[K] extends TRequires[K] ? never : K
+    // optional requirements don't need to be defined
+    : {} extends Pick<TRequires, K> ? never
+    : K;
+}[keyof TRequires];
+
+/**
+ * Passed to factories along with the store.
+ *
+ * ```ts
+ * const definition = defineStore()
+ *   .addAsync("db", (_store, { signal }) => connect(dbUrl, { signal }), {
+ *     timeoutMs: 5_000,
+ *   });
+ * ```
+ */
+export interface FactoryContext {
+  /**
+   * Aborted when the factory times out (see `ServiceOptions.timeoutMs`)
+   * or the store is disposed while the factory is pending.
+   */
+  signal: AbortSignal;
+  /** Key of the service being created. */
+  name: PropertyKey;
+  /** The services being resolved, ending with this service. */
+  path: readonly PropertyKey[];
+}
+
+/**
+ * A factory along with the services it depends on, which are checked
+ * by `StoreDefinition.validate`. See `StoreDefinition.add`.
+ */
+export interface DeclaredFactory<
+  TServices extends object,
+  TDeps extends readonly (keyof TServices)[],
+  TType,
+> {
+  /** Keys of the services the factory depends on. */
+  deps: TDeps;
+  /** Creates the service from its dependencies. */
+  factory: (
+    deps: { [K in TDeps[number]]: TServices[K] },
+    store: Store<TServices>,
+    context: FactoryContext,
+  ) => TType;
+}
+
+/** Options for a service added via `StoreDefinition.add` and similar. */
+export interface ServiceOptions<T> {
+  /**
+   * Checks the health of the service for `Store.checkHealth`, taking
+   * precedence over a `healthCheckSymbol` method.
+   */
+  healthCheck?: HealthCheck<T>;
+  /**
+   * Milliseconds after which the memoized value expires. The next time
+   * the service, or a service that depends on it, is requested, the
+   * value is dropped along with the services that depend on it and
+   * disposed in the background, then created again.
+   *
+   * An expired async service keeps its value while a single new value
+   * is created: `resolve` waits for the new value, while `get` returns
+   * the expired one. The expired value is kept if creating the new one
+   * fails, in which case it's created again the next time it's requested.
+   */
+  ttlMs?: number;
+  /** Checked each time the service is requested to expire its value, like `ttlMs`. */
+  shouldRefresh?: (entry: MemoizedEntry<T>) => boolean;
+  /**
+   * Milliseconds the factory's promise can be pending for, overriding
+   * the store's `factoryTimeoutMs`. Once it times out, the factory's
+   * `signal` is aborted and the service fails with a `ServiceFactoryError`
+   * whose cause is a `TimeoutError` `DOMException`. A value the factory
+   * resolves with afterwards is disposed.
+   */
+  timeoutMs?: number;
+}
+
+/** Emitted to `Store.onRefresh` listeners after a service is refreshed. */
+export interface RefreshEvent {
+  /** Key of the service that was refreshed. */
+  key: PropertyKey;
+  /**
+   * Keys of the instances that were dropped from the store the listener
+   * is subscribed to: the service and the services depending on it.
+   */
+  invalidated: PropertyKey[];
+  /** Level of the store the listener is subscribed to. */
+  storeLevel: number;
+  /** If the service was refreshed because its value expired. See `ServiceOptions.ttlMs`. */
+  expired?: true;
+}
+
+/** Instances dropped from a store by `Store.refresh`. */
+interface Invalidation {
+  store: Store<any>;
+  invalidated: PropertyKey[];
+  /** Dropped values the store owns, in the order they should be disposed. */
+  disposables: unknown[];
+}
+
+/** A handle to a service that's created on first access. See `Store.lazy`. */
+export interface Lazy<T> {
+  /** Gets the service, resolving it the first time it's accessed. */
+  readonly value: T;
+  /** If `value` has been accessed and the service resolved. */
+  readonly isCreated: boolean;
+}
+
+/**
+ * Wraps a service's original value, returning a value of the same type.
+ * See `StoreDefinition.decorate`.
+ */
+export type Decorator<T, TServices extends object> = (
+  original: T,
+  store: Store<TServices>,
+) => T;
+
+/** Item type of an existing collection, or `unknown` for a new one. */
+type CollectionItem<TServices, TName> = TName extends keyof TServices
+  ? TServices[TName] extends readonly (infer TItem)[] ? TItem : never
+  : unknown;
+
 /** A store which contains memoized instances. */
 export class Store<TServices extends object>
   implements Disposable, AsyncDisposable {
   readonly #memoizedValues: {
     [P in keyof TServices]?: {
       promisify?: true;
+      /** `value` is the promise of an async service still being created. */
+      pending?: true;
+      /** `value` is the error an async service's factory failed with. */
+      rejected?: true;
       value: TServices[P];
+      /** Time the value was created at, for expiring it. */
+      createdAt?: number;
+      /** The expired entry of an async service whose new value is `pending`. */
+      stale?: { value: TServices[P]; createdAt?: number };
     };
   } = {};
   readonly #factories: {
@@ -40,7 +857,33 @@ export class Store<TServices extends object>
   readonly #overrides: {
     [K in keyof TServices]?: (store: Store<TServices>) => TServices[K];
   } = {};
+  readonly #decorators: {
+    [K in keyof TServices]?: Decorator<TServices[K], TServices>[];
+  };
   readonly #parent?: Store<object>;
+  /**
+   * Factories receive a view of the store that shares the root's state
+   * and remembers which service is being created, so that nested `get`
+   * calls know the resolution path even across `await`s.
+   */
+  #root: Store<TServices> = this;
+  #frame: ResolutionFrame | undefined;
+  readonly #level: number;
+  /** Dependencies observed while factories ran, keyed by the dependent. */
+  readonly #edges = new Map<PropertyKey, Set<PropertyKey>>();
+  /** Memoized values in the order they finished being created. */
+  readonly #created: unknown[] = [];
+  /** Memoized values of singleton collection contributions. */
+  readonly #contributionValues = new Map<Function, unknown>();
+  #disposed = false;
+  readonly #options: StoreOptions;
+  /** Stores created with this store as their parent, for `refresh`. */
+  readonly #children = new Set<WeakRef<Store<any>>>();
+  /** This store's entry in its parent's children. */
+  #childRef: WeakRef<Store<any>> | undefined;
+  readonly #refreshListeners = new Set<(event: RefreshEvent) => void>();
+  /** Controllers of the factories with a pending promise, aborted on dispose. */
+  readonly #pendingFactories = new Set<AbortController>();
 
   /** @ignore */
   constructor(
@@ -51,105 +894,1416 @@ export class Store<TServices extends object>
     overrides: {
       [K in keyof TServices]?: (store: Store<TServices>) => TServices[K];
     } = {},
-  ) {
-    this.#factories = factories;
-    this.#parent = parent;
-    this.#overrides = overrides;
+    decorators: {
+      [K in keyof TServices]?: Decorator<TServices[K], TServices>[];
+    } = {},
+    options: StoreOptions = {},
+  ) {
+    this.#factories = factories;
+    this.#parent = parent;
+    this.#overrides = overrides;
+    this.#decorators = decorators;
+    this.#options = options;
+    this.#level = parent == null ? 0 : parent.#level + 1;
+    if (parent != null) {
+      const ref = new WeakRef<Store<any>>(this);
+      parent.#children.add(ref);
+      childStores.register(this, { children: parent.#children, ref }, ref);
+      this.#childRef = ref;
+    }
+  }
+
+  /**
+   * Synchronously disposes all disposable services in the store, in the
+   * reverse order they were created so dependents are disposed before
+   * their dependencies.
+   *
+   * @remarks This will error without disposing anything if any async
+   * disposable services are in the store (unless they're also
+   * disposable), so the store can still be disposed asynchronously.
+   * Every service is disposed even if some fail; a single failure is
+   * rethrown and multiple failures are thrown as an `AggregateError`.
+   * Disposing more than once does nothing.
+   */
+  [Symbol.dispose](): void {
+    if (this.#root !== this) {
+      return this.#root[Symbol.dispose]();
+    }
+    if (!this.#disposed && this.#created.some(isAsyncOnlyDisposable)) {
+      throw asyncDisposablesError();
+    }
+    throwDisposeErrors(disposeValues(this.#takeDisposables()));
+  }
+
+  /**
+   * Asynchronously disposes all disposable and async disposable services
+   * in the store, one at a time in the reverse order they were created.
+   *
+   * @remarks Errors are handled the same as `[Symbol.dispose]`.
+   */
+  async [Symbol.asyncDispose](): Promise<void> {
+    if (this.#root !== this) {
+      return await this.#root[Symbol.asyncDispose]();
+    }
+    throwDisposeErrors(await disposeValuesAsync(this.#takeDisposables()));
+  }
+
+  /**
+   * Marks the store as disposed and gets the created values in the
+   * order they should be disposed.
+   */
+  #takeDisposables(): any[] {
+    if (this.#disposed) {
+      return [];
+    }
+    this.#disposed = true;
+    if (this.#childRef != null) {
+      this.#parent!.#children.delete(this.#childRef);
+      childStores.unregister(this.#childRef);
+    }
+    for (const controller of this.#pendingFactories) {
+      controller.abort(
+        new DOMException("The store was disposed.", "AbortError"),
+      );
+    }
+    return this.#created.toReversed();
+  }
+
+  /**
+   * Eagerly creates every non-transient service registered in this
+   * store and the scoped services declared in parent stores (other
+   * services in parent stores are only created when they're a
+   * dependency), awaiting async factories.
+   *
+   * If any service fails, the services that were created are disposed
+   * and a `StoreInitializationError` is thrown with the report.
+   */
+  async initialize(
+    options: {
+      /** Maximum number of services to wait on at once. Defaults to 10. */
+      concurrency?: number;
+    } = {},
+  ): Promise<InitializationReport> {
+    const root = this.#root;
+    const concurrency = Math.max(1, options.concurrency ?? 10);
+    const parent = root.#parent;
+    const keys = [
+      ...new Set([
+        ...Reflect.ownKeys(root.#factories),
+        ...Reflect.ownKeys(root.#overrides),
+        // scoped services declared in parents are created in this store
+        ...(parent != null
+          ? [...parent.#knownKeys()].filter((key) =>
+            parent.#scopedRegistration(key) != null
+          )
+          : []),
+      ]),
+    ].filter((key) => {
+      const factory = (root.#factories as any)[key];
+      return factory == null || lifetimeOf(factory) !== "transient";
+    });
+    const report: InitializationReport = {
+      created: [],
+      failed: [],
+      durationMs: 0,
+    };
+    const start = performance.now();
+    let nextIndex = 0;
+    const worker = async () => {
+      // stop scheduling new services once one has failed
+      while (nextIndex < keys.length && report.failed.length === 0) {
+        const key = keys[nextIndex++];
+        const serviceStart = performance.now();
+        try {
+          await root.resolve(key as keyof TServices);
+          report.created.push({
+            key,
+            durationMs: performance.now() - serviceStart,
+          });
+        } catch (error) {
+          report.failed.push({
+            key,
+            durationMs: performance.now() - serviceStart,
+            error,
+          });
+        }
+      }
+    };
+    await Promise.all(
+      Array.from({ length: Math.min(concurrency, keys.length) }, worker),
+    );
+    report.durationMs = performance.now() - start;
+    if (report.failed.length > 0) {
+      await root[Symbol.asyncDispose]();
+      throw new StoreInitializationError(report);
+    }
+    return report;
+  }
+
+  /** Gets if the store has a service with the provided name, token or class. */
+  has(name: StoreKey<TServices>): boolean {
+    const root = this.#root;
+    const key = toKey(name);
+    return key in root.#overrides ||
+      key in root.#factories ||
+      (root.#parent?.has(key as any as never) ?? false);
+  }
+
+  /**
+   * Gets a service at the provided key.
+   *
+   * @remarks Throws a `MissingServiceError` if the service is not in
+   * the store, a `ServiceFactoryError` if its factory fails, or a
+   * `CircularDependencyError` if resolving it leads back to a service
+   * that is still being created. Services added via `addAsync` must be
+   * created with `resolve` before they can be gotten.
+   */
+  get<TKey extends StoreKey<TServices>>(
+    name: TKey,
+  ): ServiceOf<TServices, TKey> {
+    return this.#getFromView(name, false);
+  }
+
+  /**
+   * Resolves a service at the provided key, waiting for it to be
+   * created if it's async.
+   *
+   * Concurrent calls share the same creation of an `addAsync` service.
+   * Rejects with the same errors `get` throws.
+   */
+  resolve<TKey extends StoreKey<TServices>>(
+    name: TKey,
+  ): Promise<Awaited<ServiceOf<TServices, TKey>>> {
+    try {
+      return Promise.resolve(this.#getFromView(name, true)) as any;
+    } catch (err) {
+      return Promise.reject(err);
+    }
+  }
+
+  /**
+   * Gets a service at the provided key if it's in this store or any
+   * parent, otherwise `undefined`.
+   *
+   * This is useful for optional integrations, such as a module that
+   * declares `requires<{ metrics?: Metrics }>()`:
+   *
+   * ```ts
+   * .add("userService", (store) => {
+   *   return new UserService(store.get("db"), store.tryGet("metrics"));
+   * })
+   * ```
+   *
+   * @remarks Only a missing service results in `undefined`. Other
+   * errors are thrown the same as `get`.
+   */
+  tryGet<TKey extends StoreKey<TServices>>(
+    name: TKey,
+  ): ServiceOf<TServices, TKey> | undefined {
+    return this.has(name) ? this.#getFromView(name, false) : undefined;
+  }
+
+  /**
+   * Gets a handle to a service that's only resolved (via `get`) the
+   * first time its `value` is accessed.
+   *
+   * This is useful for deferring expensive services that are rarely
+   * used or for two services that need to reference each other, since
+   * a factory can hold a handle without creating the service.
+   *
+   * ```ts
+   * const store = defineStore()
+   *   .add("parent", (store) => new Parent(store.lazy("child")))
+   *   .add("child", (store) => new Child(store.get("parent")))
+   *   .finalize();
+   * ```
+   *
+   * @remarks Throws if the service is not in the store.
+   */
+  lazy<TKey extends StoreKey<TServices>>(
+    name: TKey,
+  ): Lazy<ServiceOf<TServices, TKey>> {
+    if (!this.has(name)) {
+      // throws the error describing the missing service
+      this.get(name);
+    }
+    this.#recordEdge(toKey(name));
+    let isCreated = false;
+    let value: ServiceOf<TServices, TKey>;
+    const get = () => this.get(name);
+    return {
+      get value() {
+        if (!isCreated) {
+          value = get();
+          isCreated = true;
+        }
+        return value;
+      },
+      get isCreated() {
+        return isCreated;
+      },
+    };
+  }
+
+  /**
+   * Creates an instance of a service added via `addFactory` using the
+   * provided arguments. This is the same as calling the function that
+   * `get(name)` returns.
+   *
+   * ```ts
+   * const logger = store.create("logger", "http");
+   * ```
+   */
+  create<TName extends keyof TServices>(
+    name: TName,
+    ...args: TServices[TName] extends (...args: infer TArgs) => unknown ? TArgs
+      : never
+  ): TServices[TName] extends (...args: any[]) => infer TResult ? TResult
+    : never {
+    const creator = this.#getFromView(name, false) as any;
+    if (!(creator instanceof Function)) {
+      throw new Error(`Service is not a factory: ${describeKey(name)}`);
+    }
+    // pass along the resolution path unless the creator was replaced
+    const createInstance = creator[createInstanceWithFrame];
+    return createInstance != null
+      ? createInstance(args, this.#frame?.active ? this.#frame : undefined)
+      : creator(...args);
+  }
+
+  #getFromView(name: StoreKey<TServices>, allowPending: boolean): any {
+    const key = toKey(name) as keyof TServices;
+    const frame = this.#frame?.active ? this.#frame : undefined;
+    const root = this.#root;
+    const registeredFactory = root.#registeredFactory(key);
+    const value = runInterceptors(root.#options.interceptors, {
+      kind: "get",
+      key,
+      lifetime: registeredFactory == null
+        ? undefined
+        : lifetimeOf(registeredFactory),
+      storeLevel: root.#level,
+      path: [...framePath(frame), key],
+    }, () => root.#get(key, frame, allowPending));
+    this.#recordEdge(key);
+    return value;
+  }
+
+  /** Records that the service being created in this view depends on `name`. */
+  #recordEdge(name: PropertyKey) {
+    const frame = this.#frame?.active ? this.#frame : undefined;
+    if (frame != null) {
+      const edges = this.#root.#edges;
+      if (!edges.has(frame.name)) {
+        edges.set(frame.name, new Set());
+      }
+      edges.get(frame.name)!.add(name);
+    }
+  }
+
+  #get<TName extends keyof TServices>(
+    name: TName,
+    frame: ResolutionFrame | undefined,
+    allowPending: boolean,
+  ): TServices[TName] {
+    if (this.#disposed) {
+      throw new Error(
+        `Cannot get service from a disposed store: ${describeKey(name)}`,
+      );
+    }
+    for (let current = frame; current != null; current = current.parent) {
+      if (current.name === name) {
+        throw new CircularDependencyError([...framePath(frame), name]);
+      }
+    }
+
+    // scoped services declared in a parent are created in this store,
+    // decorated by the parents first
+    let factory = this.#overrides[name] ?? this.#factories[name];
+    let decorators = this.#decorators[name];
+    const scoped = factory == null && this.#parent != null
+      ? this.#parent.#scopedRegistration(name)
+      : undefined;
+    if (scoped != null) {
+      factory = scoped.factory as any;
+      decorators = [...scoped.decorators, ...(decorators ?? [])];
+    }
+    // if the parent's instance is decorated here, then this store holds
+    // the decorated instance but the parent remains responsible for
+    // disposing the original
+    let isInherited = false;
+    if (factory == null) {
+      const parent = this.#parent;
+      if (parent?.has(name as any as never)) {
+        if (this.#overridesDependencyOf(name, parent)) {
+          const registration = parent.#declaredRegistration(name);
+          factory = registration.factory as any;
+          decorators = [...registration.decorators, ...(decorators ?? [])];
+        } else if (decorators == null) {
+          return parent.#get(name as any as never, frame, allowPending);
+        } else {
+          isInherited = true;
+          factory = () =>
+            parent.#get(name as any as never, frame, allowPending);
+        }
+      } else {
+        throw new MissingServiceError(
+          name,
+          [...framePath(frame), name],
+          this.#level,
+          findSuggestions(name, this.#knownKeys()),
+        );
+      }
+    }
+    // values added via `addValue` weren't created by the store
+    const isOwned = !isInherited && !(factory as any).external;
+    if ((factory as any)?.collection) {
+      const collection = factory;
+      factory = () => this.#collectionItems(name, collection, frame) as any;
+    } else if ((factory as any)?.parameterized) {
+      const registration = factory;
+      factory = () => this.#creator(name, registration) as any;
+    }
+    // an override keeps the lifetime of the service it replaces
+    const registeredFactory = this.#registeredFactory(name);
+    const lifetime = registeredFactory == null
+      ? "singleton"
+      : lifetimeOf(registeredFactory);
+    const isAsync = (registeredFactory as any)?.async === true;
+    if (isAsync && !(factory as any).async) {
+      // overrides of async services may return the awaited value, and so
+      // does the parent once it resolved an inherited service
+      const create = factory as Function;
+      factory = ((store: Store<TServices>, context: FactoryContext) =>
+        new Promise((resolve) =>
+          resolve(create(store, context))
+        )) as any;
+    }
+    this.#checkCaptiveDependency(name, lifetime, frame);
+
+    // async services keep their expired value until the new one is created
+    let stale: { value: TServices[TName]; createdAt?: number } | undefined;
+    const memoized = this.#memoizedValues[name];
+    if (
+      memoized != null && !isInherited &&
+      (this.#isExpired(registeredFactory, memoized) ||
+        this.#hasExpiredDependency(name))
+    ) {
+      if (isAsync) {
+        stale = memoized;
+        delete this.#memoizedValues[name];
+      } else {
+        this.#expire(name);
+      }
+    }
+
+    if (name in this.#memoizedValues) {
+      const entry = this.#memoizedValues[name]!;
+      if (entry.rejected) {
+        throw entry.value;
+      } else if (entry.pending) {
+        if (!allowPending) {
+          if (entry.stale != null) {
+            return entry.stale.value;
+          }
+          throw asyncNotResolvedError(name);
+        }
+        return entry.value;
+      } else if (entry.promisify) {
+        return Promise.resolve(entry.value) as any;
+      } else {
+        return entry.value;
+      }
+    }
+    if (isAsync && !allowPending && stale == null) {
+      throw asyncNotResolvedError(name);
+    }
+    const value = this.#runFactory(
+      name,
+      this.#decorateFactory(factory, decorators, isAsync),
+      lifetime,
+      frame,
+    );
+    if (lifetime === "transient") {
+      return value as any;
+    }
+    if (isAsync) {
+      this.#memoizedValues[name] = { pending: true, value, stale };
+      (value as Promise<TServices[TName]>).then((value) => {
+        if (stale != null && !this.#disposed) {
+          this.#memoizedValues[name] = stale;
+          this.#expire(name);
+        }
+        this.#memoizedValues[name] = { value, createdAt: this.#now() };
+        if (isOwned) {
+          this.#created.push(value);
+        }
+      }, (err) => {
+        if (stale != null) {
+          this.#memoizedValues[name] = stale;
+        } else if ((registeredFactory as any).cacheRejection) {
+          this.#memoizedValues[name] = { rejected: true, value: err };
+        } else {
+          delete this.#memoizedValues[name];
+        }
+      });
+      return allowPending || stale == null ? value : stale.value;
+    }
+    if (value instanceof Promise) {
+      value.then((value) => {
+        this.#memoizedValues[name] = {
+          promisify: true,
+          value,
+          createdAt: this.#now(),
+        };
+        if (isOwned) {
+          this.#created.push(value);
+        }
+      }).catch((_err) => {
+        // remove the promise on error
+        delete this.#memoizedValues[name];
+      });
+    } else if (isOwned) {
+      this.#created.push(value);
+    }
+    this.#memoizedValues[name] = {
+      value: value as any,
+      createdAt: value instanceof Promise ? undefined : this.#now(),
+    };
+    return value as any;
+  }
+
+  #now(): number {
+    return (this.#options.clock ?? Date).now();
+  }
+
+  /** Checks the memoized value against the service's `ttlMs` and `shouldRefresh`. */
+  #isExpired(
+    factory: Function | undefined,
+    entry: { value: unknown; createdAt?: number },
+  ): boolean {
+    const { ttlMs, shouldRefresh } = (factory as any) ?? {};
+    if (entry.createdAt == null || (ttlMs == null && shouldRefresh == null)) {
+      return false;
+    }
+    const ageMs = this.#now() - entry.createdAt;
+    if (ttlMs != null && ageMs >= ttlMs) {
+      return true;
+    }
+    return shouldRefresh?.({
+      value: entry.value,
+      createdAt: entry.createdAt,
+      ageMs,
+    }) ?? false;
+  }
+
+  /**
+   * Gets if a memoized dependency of a service memoized in this store
+   * expired, directly or through its own dependencies.
+   */
+  #hasExpiredDependency(name: PropertyKey): boolean {
+    for (const dependency of this.#edges.get(name) ?? []) {
+      const owner = dependency in this.#memoizedValues
+        ? this
+        : this.#ownerOf(dependency);
+      const entry = (owner.#memoizedValues as any)[dependency];
+      if (
+        entry != null &&
+        (owner.#isExpired(owner.#registeredFactory(dependency), entry) ||
+          owner.#hasExpiredDependency(dependency))
+      ) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Drops the expired value of a service memoized in this store along
+   * with its dependents, which are disposed in the background.
+   */
+  #expire(name: PropertyKey) {
+    const invalidations: Invalidation[] = [];
+    // instances still being created keep the value they already got
+    this.#dropDependents(new Set([name]), invalidations, true);
+    this.#disposeInBackground(
+      invalidations.toReversed().flatMap((i) => i.disposables),
+    );
+    Store.#notifyRefresh(name, invalidations, true);
+  }
+
+  /** Disposes the values, reporting errors to `onDisposeError`. */
+  #disposeInBackground(values: unknown[]) {
+    const onDisposeError = this.#options.onDisposeError ?? console.error;
+    disposeValuesAsync(values).then((errors) =>
+      errors.forEach((error) => onDisposeError(error))
+    );
+  }
+
+  /**
+   * Creates the function that a parameterized factory's key resolves
+   * to, which creates instances owned by this store.
+   */
+  #creator(name: PropertyKey, registration: Function): Function {
+    const instances = new Map<unknown, unknown>();
+    const createInstance = (
+      args: unknown[],
+      frame: ResolutionFrame | undefined,
+    ) => {
+      if (this.#disposed) {
+        throw new Error(
+          `Cannot create service from a disposed store: ${describeKey(name)}`,
+        );
+      }
+      const getKey = (registration as any).key;
+      const key = getKey?.(...args);
+      if (getKey != null && instances.has(key)) {
+        return instances.get(key);
+      }
+      const value = this.#runFactory(
+        name as keyof TServices,
+        (store) => (registration as any).create(store, ...args),
+        "transient",
+        frame,
+      );
+      if (getKey != null) {
+        instances.set(key, value);
+      }
+      if (value instanceof Promise) {
+        value.then((value) => this.#created.push(value), () => {
+          instances.delete(key);
+        });
+      } else {
+        this.#created.push(value);
+      }
+      return value;
+    };
+    const creator = (...args: unknown[]) => createInstance(args, undefined);
+    (creator as any)[createInstanceWithFrame] = createInstance;
+    return creator;
+  }
+
+  /**
+   * Gets the values of a collection's contributions from the parent
+   * stores followed by the ones in this store.
+   */
+  #collectionItems(
+    name: PropertyKey,
+    collection: Function | undefined,
+    frame: ResolutionFrame | undefined,
+  ): unknown[] {
+    const parent = this.#parent;
+    const items = parent != null &&
+        (parent.#registeredFactory(name) as any)?.collection
+      ? parent.#collectionItems(
+        name,
+        (parent.#factories as any)[name],
+        frame,
+      )
+      : [];
+    for (const contribution of (collection as any)?.contributions ?? []) {
+      if (this.#contributionValues.has(contribution)) {
+        items.push(this.#contributionValues.get(contribution));
+        continue;
+      }
+      const lifetime = lifetimeOf(contribution);
+      const value = this.#runFactory(
+        name as keyof TServices,
+        contribution,
+        lifetime,
+        frame,
+      );
+      if (lifetime !== "transient") {
+        this.#contributionValues.set(contribution, value);
+        if (value instanceof Promise) {
+          value.then((value) => this.#created.push(value), () => {
+            this.#contributionValues.delete(contribution);
+          });
+        } else {
+          this.#created.push(value);
+        }
+      }
+      items.push(value);
+    }
+    return items;
+  }
+
+  /**
+   * Wraps a factory so that the decorators are applied, in order, to
+   * the value it creates (or resolves to, for async services).
+   */
+  #decorateFactory<T>(
+    factory: (store: Store<TServices>, context: FactoryContext) => T,
+    decorators: Decorator<T, TServices>[] | undefined,
+    isAsync: boolean,
+  ): (store: Store<TServices>, context: FactoryContext) => T {
+    if (decorators == null) {
+      return factory;
+    }
+    const decorate = (value: T, store: Store<TServices>) =>
+      decorators.reduce((value, decorator) => decorator(value, store), value);
+    return (store, context) => {
+      const value = factory(store, context);
+      return isAsync
+        ? (value as Promise<T>).then((value) => decorate(value, store)) as T
+        : decorate(value, store);
+    };
+  }
+
+  /**
+   * Gets if a service declared in the parent should be created in this
+   * store because it depends on a service overridden here. See
+   * `StoreOptions.overrideParentDependents`.
+   */
+  #overridesDependencyOf(
+    name: PropertyKey,
+    parent: Store<any>,
+    seen: Set<PropertyKey> = new Set(),
+  ): boolean {
+    const overridden = Reflect.ownKeys(this.#overrides);
+    if (!this.#options.overrideParentDependents || overridden.length === 0) {
+      return false;
+    }
+    const registeredFactory = parent.#registeredFactory(name) as any;
+    if (registeredFactory?.collection || registeredFactory?.parameterized) {
+      return false;
+    }
+    const edges = this.#allEdges();
+    const isKnown = name in parent.#ownerOf(name).#memoizedValues ||
+      edges.some(([from]) => from === name);
+    if (isKnown) {
+      return this.#dependentsOf(overridden, edges).has(name);
+    }
+    const deps: readonly PropertyKey[] | undefined =
+      (parent.#declaredRegistration(name).factory as any)?.deps;
+    if (deps == null) {
+      // which services it depends on isn't known until it's created, so
+      // it's created in this store
+      return true;
+    }
+    return deps.some((dep) =>
+      dep in this.#overrides ||
+      (!seen.has(dep) && parent.has(dep as never) &&
+        this.#overridesDependencyOf(dep, parent, new Set([...seen, name])))
+    );
+  }
+
+  /**
+   * Gets the factory a service is declared with in this store or its
+   * parents (preferring an override) and the decorators applied to it
+   * along the way.
+   */
+  #declaredRegistration(name: PropertyKey): {
+    factory: Function | undefined;
+    decorators: Decorator<any, any>[];
+  } {
+    const ownDecorators = (this.#decorators as any)[name] ?? [];
+    const factory = (this.#overrides as any)[name] ??
+      (this.#factories as any)[name];
+    if (factory != null || this.#parent == null) {
+      return { factory, decorators: ownDecorators };
+    }
+    const registration = this.#parent.#declaredRegistration(name);
+    return {
+      factory: registration.factory,
+      decorators: [...registration.decorators, ...ownDecorators],
+    };
+  }
+
+  /** @ignore */
+  [registeredFactoryOf](name: PropertyKey): Function | undefined {
+    return this.#root.#registeredFactory(name);
+  }
+
+  /**
+   * Finds the missing services and cycles in the dependencies declared
+   * by the services in this store and its parents.
+   */
+  [findDeclarationErrors](): (MissingServiceError | CircularDependencyError)[] {
+    const errors: (MissingServiceError | CircularDependencyError)[] = [];
+    const depsOf = (key: PropertyKey): readonly PropertyKey[] =>
+      (this.#declaredRegistration(key).factory as any)?.deps ?? [];
+    const keys = [...new Set(this.#knownKeys())];
+    for (const key of keys) {
+      for (const dep of depsOf(key)) {
+        if (!this.has(dep as keyof TServices)) {
+          errors.push(
+            new MissingServiceError(
+              dep,
+              [key, dep],
+              this.#level,
+              findSuggestions(dep, this.#knownKeys()),
+            ),
+          );
+        }
+      }
+    }
+    const visited = new Set<PropertyKey>();
+    const visit = (key: PropertyKey, path: PropertyKey[]) => {
+      if (path.includes(key)) {
+        errors.push(
+          new CircularDependencyError([...path.slice(path.indexOf(key)), key]),
+        );
+      } else if (!visited.has(key)) {
+        visited.add(key);
+        for (const dep of depsOf(key)) {
+          visit(dep, [...path, key]);
+        }
+      }
+    };
+    for (const key of keys) {
+      visit(key, []);
+    }
+    return errors;
+  }
+
+  /**
+   * Dependencies observed in this store along with the `deps` declared
+   * by the services registered in it.
+   */
+  #knownEdges(): [PropertyKey, Set<PropertyKey>][] {
+    const edges = [...this.#edges];
+    const keys = new Set([
+      ...Reflect.ownKeys(this.#factories),
+      ...Reflect.ownKeys(this.#overrides),
+    ]);
+    for (const key of keys) {
+      const factory = (this.#overrides as any)[key] ??
+        (this.#factories as any)[key];
+      if (factory.deps != null) {
+        edges.push([key, new Set(factory.deps)]);
+      }
+    }
+    return edges;
+  }
+
+  /** Dependencies observed in this store and its parents. */
+  #allEdges(): [PropertyKey, Set<PropertyKey>][] {
+    return [
+      ...this.#edges,
+      ...(this.#parent != null ? this.#parent.#allEdges() : []),
+    ];
+  }
+
+  /** Gets the factory of the service as registered in this store or its parents. */
+  #registeredFactory(name: PropertyKey): Function | undefined {
+    const factory = (this.#factories as any)[name];
+    if (factory != null) {
+      return factory;
+    }
+    return this.#parent != null
+      ? this.#parent.#registeredFactory(name)
+      : undefined;
+  }
+
+  /**
+   * Reports the dependent service in `frame` if it outlives the service
+   * it's resolving, since it would keep that service alive with it.
+   */
+  #checkCaptiveDependency(
+    name: PropertyKey,
+    lifetime: ServiceLifetime,
+    frame: ResolutionFrame | undefined,
+  ) {
+    const mode = this.#options.captiveDependencies ?? "ignore";
+    if (frame == null || mode === "ignore") {
+      return;
+    }
+    const isCaptive = lifetimeRank[frame.lifetime] > lifetimeRank[lifetime] ||
+      (frame.lifetime !== "transient" && frame.storeLevel < this.#level);
+    if (!isCaptive) {
+      return;
+    }
+    const err = new CaptiveDependencyError(
+      {
+        key: frame.name,
+        lifetime: frame.lifetime,
+        storeLevel: frame.storeLevel,
+      },
+      { key: name, lifetime, storeLevel: this.#level },
+      [...framePath(frame), name],
+    );
+    if (mode === "strict") {
+      throw err;
+    } else if (this.#options.onCaptiveDependency != null) {
+      this.#options.onCaptiveDependency(err);
+    } else {
+      console.warn(err.message);
+    }
+  }
+
+  /**
+   * Gets the factory of a scoped service declared in this store or
+   * its parents, preferring an override of it, and the decorators
+   * applied to it along the way.
+   */
+  #scopedRegistration(name: PropertyKey): {
+    factory: Function;
+    decorators: Decorator<any, any>[];
+  } | undefined {
+    const ownDecorators = (this.#decorators as any)[name] ?? [];
+    const factory = (this.#factories as any)[name];
+    if (factory != null) {
+      return lifetimeOf(factory) === "scoped"
+        ? {
+          factory: (this.#overrides as any)[name] ?? factory,
+          decorators: ownDecorators,
+        }
+        : undefined;
+    }
+    const registration = this.#parent != null
+      ? this.#parent.#scopedRegistration(name)
+      : undefined;
+    return registration && {
+      factory: registration.factory,
+      decorators: [...registration.decorators, ...ownDecorators],
+    };
+  }
+
+  /** Keys registered in this store and all its parents. */
+  *#knownKeys(): Iterable<PropertyKey> {
+    yield* Reflect.ownKeys(this.#overrides);
+    yield* Reflect.ownKeys(this.#factories);
+    if (this.#parent != null) {
+      yield* this.#parent.#knownKeys();
+    }
+  }
+
+  /**
+   * Runs a factory with a view of this store that tracks `name` as
+   * being in-flight until the factory (or its promise) settles.
+   */
+  #runFactory<TName extends keyof TServices>(
+    name: TName,
+    factory: (
+      store: Store<TServices>,
+      context: FactoryContext,
+    ) => TServices[TName],
+    lifetime: ServiceLifetime,
+    parentFrame: ResolutionFrame | undefined,
+  ): TServices[TName] {
+    const frame: ResolutionFrame = {
+      name,
+      lifetime,
+      storeLevel: this.#level,
+      parent: parentFrame,
+      active: true,
+    };
+    // views delegate everything to the root, so they don't need a parent
+    const view = new Store<TServices>(
+      this.#factories,
+      undefined,
+      this.#overrides,
+      this.#decorators,
+      this.#options,
+    );
+    view.#root = this;
+    view.#frame = frame;
+    const wrapError = (err: unknown) => {
+      frame.active = false;
+      return isResolutionError(err)
+        ? err
+        : new ServiceFactoryError(name, framePath(frame), this.#level, err);
+    };
+    const controller = new AbortController();
+    const context: FactoryContext = {
+      signal: controller.signal,
+      name,
+      path: framePath(frame),
+    };
+    let value;
+    try {
+      value = runInterceptors(this.#options.interceptors, {
+        kind: "factory",
+        key: name,
+        lifetime,
+        storeLevel: this.#level,
+        path: framePath(frame),
+      }, () => factory(view, context)) as TServices[TName];
+    } catch (err) {
+      throw wrapError(err);
+    }
+    if (value instanceof Promise) {
+      return this.#abortable(name, value, controller).then((value) => {
+        frame.active = false;
+        return value;
+      }, (err) => {
+        throw wrapError(err);
+      }) as TServices[TName];
+    } else {
+      frame.active = false;
+    }
+    return value;
+  }
+
+  /**
+   * Rejects with the abort reason once the factory's signal is aborted,
+   * either by its timeout or by disposing the store, disposing whatever
+   * value the factory resolves with afterwards.
+   */
+  #abortable<T>(
+    name: PropertyKey,
+    value: Promise<T>,
+    controller: AbortController,
+  ): Promise<T> {
+    const timeoutMs = (this.#registeredFactory(name) as any)?.timeoutMs ??
+      this.#options.factoryTimeoutMs;
+    const timeoutId = timeoutMs == null ? undefined : setTimeout(() => {
+      controller.abort(
+        new DOMException(
+          `Factory timed out after ${timeoutMs}ms.`,
+          "TimeoutError",
+        ),
+      );
+    }, timeoutMs);
+    this.#pendingFactories.add(controller);
+    const aborted = new Promise<never>((_, reject) => {
+      controller.signal.addEventListener(
+        "abort",
+        () => reject(controller.signal.reason),
+        { once: true },
+      );
+    });
+    value.then((value) => {
+      if (controller.signal.aborted) {
+        this.#disposeInBackground([value]);
+      }
+    }, () => {});
+    return Promise.race([value, aborted]).finally(() => {
+      clearTimeout(timeoutId);
+      this.#pendingFactories.delete(controller);
+    });
+  }
+
+  /**
+   * Runs the health checks of the services in this store in parallel,
+   * using each service's `healthCheck` option or else its
+   * `healthCheckSymbol` method.
+   *
+   * Services that haven't been created aren't created to check them
+   * and are reported as `not-created`.
+   *
+   * ```ts
+   * const report = await store.checkHealth({ timeoutMs: 1_000 });
+   * return Response.json(report, {
+   *   status: report.status === "healthy" ? 200 : 503,
+   * });
+   * ```
+   */
+  async checkHealth(options: HealthCheckOptions = {}): Promise<HealthReport> {
+    const timeoutMs = options.timeoutMs ?? 5_000;
+    const checks: Promise<ServiceHealth>[] = [];
+    let store: Store<any> | undefined = this.#root;
+    while (store != null) {
+      checks.push(...store.#healthChecks(timeoutMs));
+      store = options.includeParents ? store.#parent : undefined;
+    }
+    const services = await Promise.all(checks);
+    return {
+      status: services.some((service) => service.status === "unhealthy")
+        ? "unhealthy"
+        : "healthy",
+      services,
+    };
+  }
+
+  /** Starts the health checks of the services memoized in this store. */
+  #healthChecks(timeoutMs: number): Promise<ServiceHealth>[] {
+    const keys = new Set<PropertyKey>([
+      ...Reflect.ownKeys(this.#factories),
+      ...Reflect.ownKeys(this.#overrides),
+      ...Reflect.ownKeys(this.#memoizedValues),
+    ]);
+    const checks: Promise<ServiceHealth>[] = [];
+    for (const key of keys) {
+      const factory = this.#registeredFactory(key) as any;
+      if (
+        factory == null || factory.collection || factory.parameterized ||
+        lifetimeOf(factory) === "transient"
+      ) {
+        continue;
+      }
+      const entry = (this.#memoizedValues as any)[key];
+      const isCreated = entry != null && !entry.pending;
+      const check: Function | undefined = factory.healthCheck ??
+        (isCreated && !entry.rejected
+          ? entry.value?.[healthCheckSymbol]?.bind(entry.value)
+          : undefined);
+      if (!(check instanceof Function)) {
+        continue;
+      }
+      const health = { key: describeKey(key), storeLevel: this.#level };
+      if (!isCreated) {
+        checks.push(Promise.resolve({
+          ...health,
+          status: "not-created",
+          latencyMs: undefined,
+        }));
+      } else if (entry.rejected) {
+        checks.push(Promise.resolve({
+          ...health,
+          status: "unhealthy",
+          latencyMs: undefined,
+          error: entry.value,
+        }));
+      } else {
+        checks.push(
+          runHealthCheck(() => check(entry.value), timeoutMs)
+            .then((result) => ({ ...health, ...result })),
+        );
+      }
+    }
+    return checks;
+  }
+
+  /**
+   * Describes the services in this store and its parents along with
+   * their declared dependencies and the ones observed between services
+   * created so far.
+   *
+   * Use `graphToJson`, `graphToDot` or `graphToMermaid` to export it.
+   */
+  graph(): ServiceGraph {
+    return this.#graph(graphKeys());
+  }
+
+  /** Describes the services for `graph`, numbering tokens with `graphKey`. */
+  #graph(graphKey: (key: PropertyKey) => string): ServiceGraph {
+    const root = this.#root;
+    // parents are described first so their tokens are numbered first
+    const parentGraph = root.#parent != null
+      ? root.#parent.#graph(graphKey)
+      : undefined;
+    const nodes = new Map<string, ServiceNode>(
+      parentGraph?.services.map((node) => [node.key, node]),
+    );
+    const keys = new Set<PropertyKey>([
+      ...Reflect.ownKeys(root.#factories),
+      ...Reflect.ownKeys(root.#overrides),
+    ]);
+    for (const key of keys) {
+      const factory = (root.#factories as any)[key];
+      // overrides of a parent's service keep the parent's lifetime
+      const lifetime = factory == null
+        ? nodes.get(graphKey(key))?.lifetime ?? "singleton"
+        : lifetimeOf(factory);
+      const node: ServiceNode = {
+        key: graphKey(key),
+        lifetime,
+        overridden: key in root.#overrides,
+        storeLevel: root.#level,
+      };
+      if (typeof key === "symbol") {
+        node.label = describeKey(key);
+      }
+      nodes.set(node.key, node);
+    }
+    const edges: ServiceEdge[] = [...(parentGraph?.edges ?? [])];
+    for (const [from, dependencies] of root.#knownEdges()) {
+      for (const to of dependencies) {
+        if (
+          !edges.some((e) => e.from === graphKey(from) && e.to === graphKey(to))
+        ) {
+          edges.push({ from: graphKey(from), to: graphKey(to) });
+        }
+      }
+    }
+    return { services: [...nodes.values()], edges };
+  }
+
+  /**
+   * Creates a new store with the provided overrides that reuses this
+   * store's memoized instances of services that don't depend on an
+   * overridden service. Services that do are created again in the fork.
+   *
+   * This is useful for running many test variations against one
+   * expensive graph:
+   *
+   * ```ts
+   * const baseStore = getProductionDefinition().finalize();
+   * await baseStore.initialize();
+   * const store = baseStore.fork({ db: () => new MockDatabase() });
+   * ```
+   *
+   * @remarks Dependencies are found from the edges described in
+   * `ServiceGraph`. Parameterized factories get their own creator
+   * functions in the fork. Disposing the fork only disposes the
+   * instances it created; reused instances still belong to this store.
+   */
+  fork(
+    overrides: {
+      [K in keyof TServices]?: (store: Store<TServices>) => TServices[K];
+    },
+  ): Store<TServices> {
+    const root = this.#root;
+    const fork = new Store<TServices>(
+      root.#factories,
+      root.#parent,
+      { ...root.#overrides, ...overrides },
+      root.#decorators,
+      root.#options,
+    );
+    // creators of parameterized factories create instances owned by
+    // this store, so the fork creates its own
+    const creators = Reflect.ownKeys(root.#memoizedValues).filter((name) =>
+      (root.#registeredFactory(name) as any)?.parameterized
+    );
+    const affected = root.#dependentsOf([
+      ...Reflect.ownKeys(overrides),
+      ...creators,
+    ]);
+    for (const name of Reflect.ownKeys(root.#memoizedValues)) {
+      const entry = (root.#memoizedValues as any)[name];
+      if (!affected.has(name) && !entry.pending && !entry.rejected) {
+        (fork.#memoizedValues as any)[name] = entry;
+        const dependencies = root.#edges.get(name);
+        if (dependencies != null) {
+          fork.#edges.set(name, new Set(dependencies));
+        }
+      }
+    }
+    return fork;
+  }
+
+  /**
+   * Gets the provided keys along with every service known to depend
+   * on them, directly or indirectly.
+   */
+  #dependentsOf(
+    keys: Iterable<PropertyKey>,
+    edges: Iterable<[PropertyKey, Set<PropertyKey>]> = this.#knownEdges(),
+  ): Set<PropertyKey> {
+    const dependents = new Set(keys);
+    let changed = true;
+    while (changed) {
+      changed = false;
+      for (const [from, dependencies] of edges) {
+        if (
+          !dependents.has(from) &&
+          [...dependencies].some((to) => dependents.has(to))
+        ) {
+          dependents.add(from);
+          changed = true;
+        }
+      }
+    }
+    return dependents;
+  }
+
+  /**
+   * Replaces the memoized instance of a service: the current instance
+   * is disposed along with the instances of services that depend on it,
+   * which are created again the next time they're requested (or right
+   * away with `eager`). Child stores see the new instance too.
+   *
+   * This is useful for long running servers that rotate credentials or
+   * reload config:
+   *
+   * ```ts
+   * store.onRefresh((event) => console.log("refreshed", event.invalidated));
+   * store.refresh("credentials");
+   * ```
+   *
+   * @remarks A service declared in a parent store is refreshed in that
+   * store. Dependents are found from the edges described in
+   * `ServiceGraph`. Throws if an instance that would be dropped is
+   * still being created. Async services aren't created by an `eager`
+   * refresh; use `refreshAsync` for those. Disposal errors are thrown
+   * after the listeners are notified.
+   */
+  refresh(
+    name: StoreKey<TServices>,
+    options: {
+      /** Create the dropped services again right away. */
+      eager?: boolean;
+    } = {},
+  ): void {
+    const key = toKey(name);
+    const invalidations = this.#root.#invalidate(key);
+    const errors = disposeValues(
+      invalidations.toReversed().flatMap((i) => i.disposables),
+    );
+    if (options.eager) {
+      for (const { store, invalidated } of invalidations) {
+        for (const dependent of invalidated) {
+          if (!(store.#registeredFactory(dependent) as any)?.async) {
+            store.get(dependent);
+          }
+        }
+      }
+    }
+    Store.#notifyRefresh(key, invalidations);
+    throwDisposeErrors(errors);
+  }
+
+  /**
+   * Same as `refresh`, but awaits async disposables and, when `eager`,
+   * resolves async services as well.
+   */
+  async refreshAsync(
+    name: StoreKey<TServices>,
+    options: {
+      /** Create the dropped services again right away. */
+      eager?: boolean;
+    } = {},
+  ): Promise<void> {
+    const key = toKey(name);
+    const invalidations = this.#root.#invalidate(key);
+    const errors = await disposeValuesAsync(
+      invalidations.toReversed().flatMap((i) => i.disposables),
+    );
+    if (options.eager) {
+      for (const { store, invalidated } of invalidations) {
+        for (const dependent of invalidated) {
+          await store.resolve(dependent);
+        }
+      }
+    }
+    Store.#notifyRefresh(key, invalidations);
+    throwDisposeErrors(errors);
   }
 
   /**
-   * Synchronously disposes all disposable services in the store.
+   * Subscribes to the services refreshed in this store, including
+   * refreshes of a parent's service that drop instances in this store.
    *
-   * @remarks This will error if any async disposable services are
-   * in the store (unless they're also disposable).
+   * @returns A function that unsubscribes the listener.
    */
-  [Symbol.dispose]() {
-    for (const { value } of (Object.values(this.#memoizedValues) as any[])) {
-      if (value[Symbol.dispose] instanceof Function) {
-        value[Symbol.dispose]();
-      } else if (value[Symbol.asyncDispose] instanceof Function) {
-        throw new Error(
-          "Cannot dispose a container containing async disposables. Use `await using` instead of `using`.",
-        );
+  onRefresh(listener: (event: RefreshEvent) => void): () => void {
+    const listeners = this.#root.#refreshListeners;
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+
+  static #notifyRefresh(
+    name: PropertyKey,
+    invalidations: Invalidation[],
+    expired = false,
+  ) {
+    for (const { store, invalidated } of invalidations) {
+      const event: RefreshEvent = {
+        key: name,
+        invalidated,
+        storeLevel: store.#level,
+      };
+      if (expired) {
+        event.expired = true;
+      }
+      for (const listener of [...store.#refreshListeners]) {
+        listener(event);
       }
     }
   }
 
   /**
-   * Asynchronously disposes all disposable and async disposable services
-   * in the store.
+   * Drops the memoized instances of `name` and its dependents in the
+   * store that memoizes `name` and in that store's children.
    */
-  async [Symbol.asyncDispose]() {
-    const pendingPromises = [];
-    for (const { value } of (Object.values(this.#memoizedValues) as any[])) {
-      // prefer async
-      if (value[Symbol.asyncDispose] instanceof Function) {
-        pendingPromises.push(value[Symbol.asyncDispose]());
-      } else if (value[Symbol.dispose] instanceof Function) {
-        value[Symbol.dispose]();
-      }
+  #invalidate(name: PropertyKey): Invalidation[] {
+    if (this.#disposed) {
+      throw new Error(
+        `Cannot refresh service in a disposed store: ${describeKey(name)}`,
+      );
     }
-    await Promise.all(pendingPromises);
+    if (!this.has(name as keyof TServices)) {
+      // throws the error describing the missing service
+      this.get(name as keyof TServices);
+    }
+    const invalidations: Invalidation[] = [];
+    this.#ownerOf(name).#dropDependents(new Set([name]), invalidations);
+    return invalidations;
   }
 
-  /** Gets if the store has a service with the provided name. */
-  has<TName extends keyof TServices>(name: TName): boolean {
-    return name in this.#overrides || 
+  /** Gets the store that memoizes the service when resolving it from this store. */
+  #ownerOf(name: PropertyKey): Store<any> {
+    const parent = this.#parent;
+    if (
+      parent == null ||
       name in this.#factories ||
-      (this.#parent?.has(name as any as never) ?? false);
+      name in this.#overrides ||
+      parent.#scopedRegistration(name) != null
+    ) {
+      return this;
+    }
+    return parent.#ownerOf(name);
   }
 
   /**
-   * Gets a service at the provided key.
-   *
-   * @remarks Throws if the service is not in the store.
+   * Drops the memoized instances of `keys` and their dependents in this
+   * store and its children. Every store is checked before anything is
+   * dropped, so a refresh that throws leaves the stores unchanged.
    */
-  get<TName extends keyof TServices>(
-    name: TName,
-  ): TServices[TName] {
-    // Check for override first - highest priority    
-    const overrideFactory = this.#overrides[name];
-    if (overrideFactory != null) {
-      const value = overrideFactory(this);
-      return value as any;
+  #dropDependents(
+    keys: Set<PropertyKey>,
+    invalidations: Invalidation[],
+    skipPending = false,
+  ) {
+    const dropped: { store: Store<any>; invalidated: PropertyKey[] }[] = [];
+    this.#findDropped(keys, skipPending, dropped);
+    for (const { store, invalidated } of dropped) {
+      const memoizedValues = store.#memoizedValues as any;
+      const values = new Set(
+        invalidated.map((key) => memoizedValues[key].value),
+      );
+      for (const key of invalidated) {
+        delete memoizedValues[key];
+      }
+      const disposables = store.#created.filter((value) => values.has(value));
+      store.#created.splice(
+        0,
+        store.#created.length,
+        ...store.#created.filter((value) => !values.has(value)),
+      );
+      invalidations.push({
+        store,
+        invalidated,
+        disposables: disposables.toReversed(),
+      });
     }
+  }
 
-    // Check memorized values next - but only if there's no override
-    if (name in this.#memoizedValues) {
-      const entry = this.#memoizedValues[name]!;
-      if (entry.promisify) {
-        return Promise.resolve(entry.value) as any;
-      } else {
-        return entry.value;
-      }
-    } else {
-      const factory = this.#factories[name];
-      if (factory == null) {
-        if (this.#parent?.has(name as any as never)) {
-          return this.#parent.get(name as any as never);
-        } else {
-          throw new Error(`Store did not contain key: ${name as any}`);
-        }
-      }
-      const value = factory(this);
-      if ((factory as any).transient) {
-        return value as any;
+  /**
+   * Finds the memoized instances to drop for `#dropDependents`, throwing
+   * if one is still being created (unless `skipPending`).
+   */
+  #findDropped(
+    keys: Set<PropertyKey>,
+    skipPending: boolean,
+    dropped: { store: Store<any>; invalidated: PropertyKey[] }[],
+  ) {
+    const affected = this.#dependentsOf(keys);
+    const memoizedValues = this.#memoizedValues as any;
+    const isPending = (key: PropertyKey) =>
+      memoizedValues[key].pending ||
+      (!memoizedValues[key].promisify &&
+        memoizedValues[key].value instanceof Promise);
+    const invalidated = Reflect.ownKeys(memoizedValues)
+      .filter((key) => affected.has(key))
+      .filter((key) => !skipPending || !isPending(key));
+    for (const key of invalidated) {
+      if (isPending(key)) {
+        throw new Error(
+          `Cannot refresh service while it's being created: ${
+            describeKey(key)
+          }`,
+        );
       }
-      if (value instanceof Promise) {
-        value.then((value) => {
-          this.#memoizedValues[name] = {
-            promisify: true,
-            value,
-          };
-        }).catch((_err) => {
-          // remove the promise on error
-          delete this.#memoizedValues[name];
-        });
+    }
+    dropped.push({ store: this, invalidated });
+    for (const ref of this.#children) {
+      const child = ref.deref();
+      if (child == null || child.#disposed) {
+        this.#children.delete(ref);
+      } else {
+        // the child's own instances are only dropped through their
+        // dependencies
+        const inherited = [...affected].filter((key) =>
+          !(key in child.#memoizedValues) && child.#ownerOf(key) !== child
+        );
+        child.#findDropped(new Set(inherited), skipPending, dropped);
       }
-      this.#memoizedValues[name] = {
-        value: value as any,
-      };
-      return value as any;
     }
   }
 
@@ -167,9 +2321,22 @@ export class Store<TServices extends object>
    * that a child "request store definition" with its request-only
    * services. When a request comes in, a store can be created
    * specifically for that request.
+   *
+   * Set `overrideParentDependents` for services overridden in the
+   * child definition to also replace them in the parent's services
+   * that depend on them (see `StoreOptions.overrideParentDependents`).
    */
-  createChild(): StoreDefinition<TServices> {
-    return new StoreDefinition({} as any, this as any, {});
+  createChild(
+    options: Pick<StoreOptions, "overrideParentDependents"> = {},
+  ): StoreDefinition<TServices> {
+    const root = this.#root;
+    return new StoreDefinition(
+      {} as any,
+      root as any,
+      {},
+      {},
+      { ...root.#options, ...options },
+    );
   }
 }
 
@@ -181,7 +2348,11 @@ export class StoreDefinition<TServices extends object> {
   readonly #overrides: {
     [K in keyof TServices]?: (store: Store<TServices>) => TServices[K];
   };
+  readonly #decorators: {
+    [K in keyof TServices]?: Decorator<TServices[K], TServices>[];
+  };
   readonly #parentStore: Store<object> | undefined;
+  readonly #options: StoreOptions;
 
   /** @ignore */
   constructor(
@@ -192,27 +2363,234 @@ export class StoreDefinition<TServices extends object> {
     overrides: {
       [K in keyof TServices]?: (store: Store<TServices>) => TServices[K];
     },
+    decorators: {
+      [K in keyof TServices]?: Decorator<TServices[K], TServices>[];
+    },
+    options: StoreOptions,
   ) {
-    if (arguments.length !== 3) {
+    if (arguments.length !== 5) {
       throw new Error("Use the `defineStore` export instead.");
     }
     this.#factories = factories;
     this.#parentStore = parentStore;
     this.#overrides = overrides;
+    this.#decorators = decorators;
+    this.#options = options;
+  }
+
+  /**
+   * Adds a service factory to the store definition at the provided key.
+   *
+   * The factory can also be provided along with the services it depends
+   * on, which are type checked and then checked by `validate` (and
+   * `finalize`) before any service is created:
+   *
+   * ```ts
+   * const definition = defineStore()
+   *   .add("db", () => createDb())
+   *   .add("logger", () => createLogger())
+   *   .add("userRepo", {
+   *     deps: ["db", "logger"],
+   *     factory: ({ db, logger }) => new UserRepo(db, logger),
+   *   });
+   * ```
+   *
+   * The key can also be a token (see `createToken`) or a class, in which
+   * case the factory must create a value of the token's type or an
+   * instance of the class:
+   *
+   * ```ts
+   * const definition = defineStore()
+   *   .add(Logger, () => new ConsoleLogger())
+   *   .add(dbToken, (store) => new Database(store.get(Logger)));
+   * ```
+   *
+   * A `healthCheck` can be provided for `Store.checkHealth`:
+   *
+   * ```ts
+   * const definition = defineStore()
+   *   .add("db", () => createDb(), { healthCheck: (db) => db.ping() });
+   * ```
+   *
+   * The memoized value can also expire, see `ServiceOptions.ttlMs`:
+   *
+   * ```ts
+   * const definition = defineStore()
+   *   .add("accessToken", () => fetchToken(), { ttlMs: 60_000 });
+   * ```
+   */
+  add<
+    TName extends string | ServiceKey<any>,
+    TType extends ServiceValue<TName>,
+    const TDeps extends readonly (keyof TServices)[] = [],
+  >(
+    name: TName,
+    value:
+      | ((services: Store<TServices>, context: FactoryContext) => TType)
+      | DeclaredFactory<TServices, TDeps, TType>,
+    options: ServiceOptions<TType> = {},
+  ): StoreDefinition<WithService<TServices, TName, TType>> {
+    const key = toKey(name);
+    if (this.#isDefined(key)) {
+      throw new Error(`Service already defined: ${describeKey(key)}`);
+    }
+    const factory = toFactory(value as any);
+    if (options.healthCheck != null) {
+      (factory as any).healthCheck = options.healthCheck;
+    }
+    if (options.timeoutMs != null) {
+      (factory as any).timeoutMs = options.timeoutMs;
+    }
+    if (options.ttlMs != null || options.shouldRefresh != null) {
+      (factory as any).ttlMs = options.ttlMs;
+      (factory as any).shouldRefresh = options.shouldRefresh;
+    }
+    return new StoreDefinition(
+      {
+        ...this.#factories,
+        [key]: factory,
+      } as any,
+      this.#parentStore,
+      this.#overrides,
+      this.#decorators,
+      this.#options,
+    ) as any;
+  }
+
+  /**
+   * Adds a plain value to the store. The store doesn't dispose the
+   * value since it didn't create it.
+   *
+   * ```ts
+   * const definition = defineStore()
+   *   .addValue("startedAt", new Date())
+   *   .addValue(httpClientToken, fetchClient);
+   * ```
+   */
+  addValue<
+    TName extends string | ServiceKey<any>,
+    TType extends ServiceValue<TName>,
+  >(
+    name: TName,
+    value: TType,
+  ): StoreDefinition<WithService<TServices, TName, TType>> {
+    const factory = () => value;
+    (factory as any).external = true;
+    return this.add(name, factory as any) as any;
+  }
+
+  /**
+   * Adds a config whose values are read from a source (see `fromEnv`,
+   * `fromJsonFile` and `fromObject`) and parsed with a schema of
+   * `field`s. The service is typed from the schema.
+   *
+   * ```ts
+   * const definition = defineStore()
+   *   .addConfig("db", {
+   *     from: fromEnv({ prefix: "DB_" }), // reads DB_URL and DB_POOL_SIZE
+   *     schema: {
+   *       url: field.string(),
+   *       poolSize: field.number().default(10),
+   *     },
+   *   });
+   * ```
+   *
+   * @remarks The config is loaded when it's first resolved, or when the
+   * store is created by `finalize` if `eager` is set. Invalid values
+   * result in a `ConfigValidationError` listing every invalid key,
+   * which is the `cause` of the `ServiceFactoryError` when resolving.
+   * Use `overrideConfig` to replace individual values in tests.
+   */
+  addConfig<TName extends string, TSchema extends ConfigSchema>(
+    name: TName,
+    options: {
+      from: ConfigSource;
+      schema: TSchema;
+      /** Load and validate the config when the store is created. */
+      eager?: boolean;
+    },
+  ): StoreDefinition<TServices & { [P in TName]: ConfigOf<TSchema> }> {
+    const factory = createConfigFactory(name, { ...options, values: {} });
+    return this.add(name, factory) as any;
   }
 
-  /** Adds a service factory to the store definition at the provided key. */
-  add<TName extends string, TType>(
+  /**
+   * Overrides individual values of a config added via `addConfig`. The
+   * values are parsed with the config's schema and the remaining values
+   * are still read from its source.
+   *
+   * ```ts
+   * const definition = getProductionDefinition()
+   *   .overrideConfig("db", { url: "postgres://localhost/test" });
+   * ```
+   */
+  overrideConfig<TName extends keyof TServices>(
     name: TName,
-    value: (services: Store<TServices>) => TType,
-  ): StoreDefinition<TServices & { [P in TName]: TType }> {
-    if (name in this.#factories || this.#parentStore?.has(name as never)) {
-      throw new Error(`Service already defined: ${name}`);
+    values: Partial<TServices[TName]>,
+  ): StoreDefinition<TServices> {
+    const factory = ((this.#overrides as any)[name] ??
+      (this.#factories as any)[name] ??
+      this.#parentStore?.[registeredFactoryOf](name)) as any;
+    if (factory?.config == null) {
+      throw new Error(`Service is not a config: ${describeKey(name)}`);
     }
-    return new StoreDefinition({
-      ...this.#factories,
-      [name]: value,
-    } as any, this.#parentStore, this.#overrides) as any;
+    const config: ConfigRegistration = factory.config;
+    return this.override(
+      name,
+      createConfigFactory(String(name), {
+        ...config,
+        values: { ...config.values, ...values },
+      }) as any,
+    );
+  }
+
+  /**
+   * Declares a service that might not be provided, which resolves to
+   * the value of `fallback` unless it's added afterwards via `add` (or
+   * another `add*` method) in this definition or a child definition.
+   * Without a fallback, it resolves to `undefined`.
+   *
+   * ```ts
+   * const definition = defineStore()
+   *   .addOptional("metrics", () => new NoopMetrics())
+   *   .addOptional<"featureFlags", FeatureFlagClient>("featureFlags")
+   *   .add("checkout", (store) => {
+   *     return new Checkout(store.get("metrics"), store.get("featureFlags"));
+   *   });
+   * ```
+   *
+   * @remarks Services in parent stores keep resolving the fallback when
+   * a child definition adds the service.
+   */
+  addOptional<TName extends string, TType>(
+    name: TName,
+    fallback: (services: Store<TServices>, context: FactoryContext) => TType,
+  ): StoreDefinition<TServices & { [P in TName]: TType }>;
+  addOptional<TName extends string, TType>(
+    name: TName,
+  ): StoreDefinition<TServices & { [P in TName]: TType | undefined }>;
+  addOptional<TName extends string, TType>(
+    name: TName,
+    fallback: (
+      services: Store<TServices>,
+      context: FactoryContext,
+    ) => TType | undefined = () => undefined,
+  ): StoreDefinition<TServices & { [P in TName]: TType | undefined }> {
+    const factory = (store: Store<TServices>, context: FactoryContext) =>
+      fallback(store, context);
+    (factory as any).optional = true;
+    return this.add(name, factory as any) as any;
+  }
+
+  /**
+   * Gets if a service is defined in this definition or its parent
+   * stores, where optional services don't count since they can be
+   * replaced.
+   */
+  #isDefined(name: PropertyKey): boolean {
+    const factory = (this.#factories as any)[name] ??
+      this.#parentStore?.[registeredFactoryOf](name);
+    return factory != null && !factory.optional;
   }
 
   /**
@@ -220,12 +2598,157 @@ export class StoreDefinition<TServices extends object> {
    * be created each time they're requested instead of being
    * memoized.
    */
-  addTransient<TName extends string, TType>(
+  addTransient<
+    TName extends string | ServiceKey<any>,
+    TType extends ServiceValue<TName>,
+    const TDeps extends readonly (keyof TServices)[] = [],
+  >(
+    name: TName,
+    value:
+      | ((services: Store<TServices>, context: FactoryContext) => TType)
+      | DeclaredFactory<TServices, TDeps, TType>,
+  ): StoreDefinition<WithService<TServices, TName, TType>> {
+    const factory = toFactory(value as any);
+    (factory as any).transient = true;
+    return this.add(name, factory as any);
+  }
+
+  /**
+   * Adds a contribution to a collection of services. Getting the
+   * collection returns an array of the values from every contribution,
+   * starting with ones from parent stores followed by the ones from
+   * this definition in the order they were added.
+   *
+   * Each contribution is memoized unless `transient` is set, in which
+   * case it's created every time the collection is requested.
+   *
+   * ```ts
+   * const definition = defineStore()
+   *   .addToCollection("middlewares", () => cors())
+   *   .addToCollection("middlewares", (store) => auth(store.get("db")));
+   * const middlewares = definition.finalize().get("middlewares");
+   * ```
+   */
+  addToCollection<
+    TName extends string,
+    TType extends CollectionItem<TServices, TName>,
+  >(
+    name: TName,
+    value: (services: Store<TServices>, context: FactoryContext) => TType,
+    options: { transient?: boolean } = {},
+  ): StoreDefinition<
+    TName extends keyof TServices ? TServices
+      : TServices & { [P in TName]: TType[] }
+  > {
+    const existing = (this.#factories as any)[name];
+    const registered = existing ??
+      this.#parentStore?.[registeredFactoryOf](name) as any;
+    if (registered != null && !registered.collection) {
+      throw new Error(`Service already defined: ${describeKey(name)}`);
+    }
+    const contribution = (store: Store<TServices>, context: FactoryContext) =>
+      value(store, context);
+    if (options.transient) {
+      (contribution as any).transient = true;
+    }
+    const collection = createCollection([
+      ...(existing?.contributions ?? []),
+      contribution,
+    ]);
+    return new StoreDefinition(
+      {
+        ...this.#factories,
+        [name]: collection,
+      } as any,
+      this.#parentStore,
+      this.#overrides,
+      this.#decorators,
+      this.#options,
+    ) as any;
+  }
+
+  /**
+   * Adds a factory that takes runtime arguments, such as a logger per
+   * module name or a repository per tenant. The service resolves to a
+   * function that creates instances, which can also be called via
+   * `store.create(name, ...args)`.
+   *
+   * Instances are created on each call unless a `key` is provided, in
+   * which case they're memoized per key. Every instance is disposed
+   * along with the store.
+   *
+   * ```ts
+   * const store = defineStore()
+   *   .addFactory("logger", (store, module: string) => {
+   *     return new Logger(store.get("transport"), module);
+   *   }, { key: (module) => module })
+   *   .finalize();
+   * const logger = store.create("logger", "http");
+   * ```
+   */
+  addFactory<TName extends string, TArgs extends unknown[], TType>(
+    name: TName,
+    value: (services: Store<TServices>, ...args: TArgs) => TType,
+    options: { key?: (...args: TArgs) => unknown } = {},
+  ): StoreDefinition<TServices & { [P in TName]: (...args: TArgs) => TType }> {
+    const registration = () => {
+      throw new Error("Parameterized factories are created by the store.");
+    };
+    (registration as any).parameterized = true;
+    (registration as any).create = value;
+    (registration as any).key = options.key;
+    return this.add(name, registration as any) as any;
+  }
+
+  /**
+   * Adds a service with an async factory to the store. The service is
+   * typed as the awaited value and is created via `store.resolve(name)`,
+   * after which `store.get(name)` returns it synchronously.
+   *
+   * By default a rejected factory is retried the next time the service
+   * is resolved. Set `cacheRejection` to instead keep failing with the
+   * same error.
+   */
+  addAsync<
+    TName extends string | ServiceKey<any>,
+    TType extends ServiceValue<TName>,
+  >(
+    name: TName,
+    value: (
+      services: Store<TServices>,
+      context: FactoryContext,
+    ) => Promise<TType>,
+    options: { cacheRejection?: boolean } & ServiceOptions<TType> = {},
+  ): StoreDefinition<WithService<TServices, TName, TType>> {
+    const factory = toFactory(value);
+    (factory as any).async = true;
+    (factory as any).cacheRejection = options.cacheRejection ?? false;
+    return this.add(name, factory as any, options as any);
+  }
+
+  /**
+   * Adds a scoped service to the store. These services are memoized
+   * per store: the store created from this definition and each store
+   * created from a child definition (via `createChild`) get their own
+   * instance, which is disposed along with that store.
+   *
+   * This allows declaring per-request services once in the application's
+   * definition instead of in every child definition.
+   */
+  addScoped<
+    TName extends string | ServiceKey<any>,
+    TType extends ServiceValue<TName>,
+    const TDeps extends readonly (keyof TServices)[] = [],
+  >(
     name: TName,
-    value: (services: Store<TServices>) => TType,
-  ): StoreDefinition<TServices & { [P in TName]: TType }> {
-    (value as any).transient = true;
-    return this.add(name, value);
+    value:
+      | ((services: Store<TServices>, context: FactoryContext) => TType)
+      | DeclaredFactory<TServices, TDeps, TType>,
+    options: ServiceOptions<TType> = {},
+  ): StoreDefinition<WithService<TServices, TName, TType>> {
+    const factory = toFactory(value as any);
+    (factory as any).scoped = true;
+    return this.add(name, factory as any, options as any);
   }
 
   /**
@@ -233,26 +2756,388 @@ export class StoreDefinition<TServices extends object> {
    * This is useful for testing where you want to replace a service
    * with a mock or test implementation.
    */
-  override<TName extends keyof TServices>(
-    name: TName,
-    value: (services: Store<TServices>) => TServices[TName],
+  override<TKey extends StoreKey<TServices>>(
+    name: TKey,
+    value: (
+      services: Store<TServices>,
+      context: FactoryContext,
+    ) => ServiceOf<TServices, TKey>,
   ): StoreDefinition<TServices> {
     return new StoreDefinition(
       this.#factories,
       this.#parentStore,
       {
         ...this.#overrides,
-        [name]: value,
+        [toKey(name)]: value,
+      },
+      this.#decorators,
+      this.#options,
+    ) as any;
+  }
+
+  /**
+   * Decorates an existing service, wrapping whatever value it has
+   * (including a service from a parent store or one replaced via
+   * `override`) without replacing its factory.
+   *
+   * Decorators can be stacked and are applied in the order they were
+   * added. A decorated service from a parent store is decorated and
+   * memoized in stores created from this definition, while the parent
+   * store keeps the original.
+   *
+   * ```ts
+   * const definition = getProductionDefinition()
+   *   .decorate("httpClient", (client) => withRetries(client))
+   *   .decorate("httpClient", (client, store) => {
+   *     return withLogging(client, store.get("logger"));
+   *   });
+   * ```
+   */
+  decorate<TKey extends StoreKey<TServices>>(
+    name: TKey,
+    decorator: Decorator<ServiceOf<TServices, TKey>, TServices>,
+  ): StoreDefinition<TServices> {
+    const key = toKey(name) as keyof TServices;
+    return new StoreDefinition(
+      this.#factories,
+      this.#parentStore,
+      this.#overrides,
+      {
+        ...this.#decorators,
+        [key]: [...(this.#decorators[key] ?? []), decorator],
+      },
+      this.#options,
+    ) as any;
+  }
+
+  /**
+   * Adds an interceptor that runs around every factory call and every
+   * `get`/`resolve` of stores created from this definition. Interceptors
+   * are inherited by child definitions made through `createChild`, and
+   * run in the order they were added, with the first being outermost.
+   */
+  intercept(interceptor: Interceptor): StoreDefinition<TServices> {
+    return new StoreDefinition(
+      this.#factories,
+      this.#parentStore,
+      this.#overrides,
+      this.#decorators,
+      {
+        ...this.#options,
+        interceptors: [...(this.#options.interceptors ?? []), interceptor],
+      },
+    ) as any;
+  }
+
+  /**
+   * Adds the services of a module created via `defineModule`. This
+   * definition must already have the services the module requires,
+   * otherwise it's a type error.
+   *
+   * ```ts
+   * const definition = defineStore()
+   *   .add("config", () => loadConfig())
+   *   .use(dbModule)
+   *   .use(userModule);
+   * ```
+   *
+   * @remarks Throws if the module adds a service that's already
+   * defined, naming the module that defined it. Contributions to a
+   * collection from different modules are combined.
+   */
+  use<TRequires extends object, TProvided extends object>(
+    module:
+      & ModuleDefinition<TRequires, TProvided>
+      & ([UnmetRequirements<TServices, TRequires>] extends [never] ? unknown
+        : { unmetRequirements: UnmetRequirements<TServices, TRequires> }),
+  ): StoreDefinition<TServices & TProvided> {
+    const factories: any = { ...this.#factories };
+    const moduleFactories: any = module[moduleDefinition].#factories;
+    for (const key of Reflect.ownKeys(moduleFactories)) {
+      const factory = moduleFactories[key];
+      const existing = factories[key];
+      if (factory.collection && (existing == null || existing.collection)) {
+        factories[key] = createCollection([
+          ...(existing?.contributions ?? []),
+          ...factory.contributions,
+        ]);
+      } else if (factory.optional && existing != null) {
+        // keep the service that's already defined
+      } else if (this.#isDefined(key)) {
+        const definedBy = existing?.module != null
+          ? ` by module "${existing.module}"`
+          : "";
+        throw new Error(
+          `Service "${
+            describeKey(key)
+          }" from module "${module.name}" is already defined${definedBy}.`,
+        );
+      } else {
+        factories[key] = copyFactory(factory);
+        factories[key].module = module.name;
       }
+    }
+    return new StoreDefinition(
+      factories,
+      this.#parentStore,
+      this.#overrides,
+      this.#decorators,
+      this.#options,
     ) as any;
   }
 
-  /** Create the store. */
+  /**
+   * Describes the services in this definition and its parent stores.
+   *
+   * @remarks Dependencies are only known for services that declare
+   * their `deps` or that have been created in a parent store. See
+   * `ServiceGraph`.
+   */
+  graph(): ServiceGraph {
+    return this.#createStore().graph();
+  }
+
+  /**
+   * Checks the dependencies declared by services (see `add`) in this
+   * definition and its parent stores, throwing a `StoreValidationError`
+   * with every missing service and cycle that's found.
+   *
+   * @remarks Services added with only a factory function aren't
+   * checked, since what they depend on is only known once they're
+   * created.
+   */
+  validate(): void {
+    this.#validate(this.#createStore());
+  }
+
+  #validate(store: Store<TServices>) {
+    const errors = store[findDeclarationErrors]();
+    if (errors.length > 0) {
+      throw new StoreValidationError(errors);
+    }
+  }
+
+  #createStore(): Store<TServices> {
+    return new Store(
+      this.#factories,
+      this.#parentStore,
+      this.#overrides,
+      this.#decorators,
+      this.#options,
+    );
+  }
+
+  /**
+   * Create the store, loading the configs added with `eager` (see
+   * `addConfig`).
+   *
+   * @remarks Throws a `StoreValidationError` if the declared
+   * dependencies are invalid (see `validate`) and a
+   * `ConfigValidationError` listing the invalid keys of every eager
+   * config.
+   */
   finalize(): Store<TServices> {
-    return new Store(this.#factories, this.#parentStore, this.#overrides);
+    const store = this.#createStore();
+    this.#validate(store);
+    const configIssues: ConfigIssue[] = [];
+    for (const key of Reflect.ownKeys(this.#factories)) {
+      const factory = (this.#overrides as any)[key] ??
+        (this.#factories as any)[key];
+      if (factory.config?.eager) {
+        try {
+          store.get(key as keyof TServices);
+        } catch (err) {
+          if (!(err instanceof ServiceFactoryError)) {
+            throw err;
+          }
+          if (!(err.cause instanceof ConfigValidationError)) {
+            throw err;
+          }
+          configIssues.push(...err.cause.issues);
+        }
+      }
+    }
+    if (configIssues.length > 0) {
+      throw new ConfigValidationError(configIssues);
+    }
+    return store;
+  }
+}
+
+/**
+ * A named bundle of services, created via `defineModule`, that's added
+ * to a store definition with `StoreDefinition.use`.
+ *
+ * `TRequires` are the services the module needs from the definition
+ * it's used in and `TServices` are the services it adds.
+ */
+export class ModuleDefinition<
+  TRequires extends object,
+  TServices extends object,
+> {
+  declare readonly [moduleTypes]?: {
+    requires: TRequires;
+    services: TServices;
+  };
+  /** @ignore */
+  readonly [moduleDefinition]: StoreDefinition<TRequires & TServices>;
+  /** Name of the module, used in error messages. */
+  readonly name: string;
+
+  /** @ignore */
+  constructor(
+    name: string,
+    definition: StoreDefinition<TRequires & TServices>,
+  ) {
+    if (!(definition instanceof StoreDefinition)) {
+      throw new Error("Use the `defineModule` export instead.");
+    }
+    this.name = name;
+    this[moduleDefinition] = definition;
+  }
+
+  #with(definition: StoreDefinition<any>): any {
+    return new ModuleDefinition(this.name, definition);
+  }
+
+  /**
+   * Declares services the module needs from the definition it's used
+   * in. This only affects types.
+   *
+   * ```ts
+   * const dbModule = defineModule("db")
+   *   .requires<{ config: Config }>()
+   *   .add("db", (store) => new Database(store.get("config").dbUrl));
+   * ```
+   */
+  requires<T extends object>(): ModuleDefinition<TRequires & T, TServices> {
+    return this as any;
+  }
+
+  /** Adds a service factory to the module. See `StoreDefinition.add`. */
+  add<
+    TName extends string,
+    TType,
+    const TDeps extends readonly (keyof (TRequires & TServices))[] = [],
+  >(
+    name: TName,
+    value:
+      | ((
+        services: Store<TRequires & TServices>,
+        context: FactoryContext,
+      ) => TType)
+      | DeclaredFactory<TRequires & TServices, TDeps, TType>,
+    options: ServiceOptions<TType> = {},
+  ): ModuleDefinition<TRequires, TServices & { [P in TName]: TType }> {
+    return this.#with(
+      this[moduleDefinition].add(name, value as any, options as any),
+    );
+  }
+
+  /** Adds a transient service. See `StoreDefinition.addTransient`. */
+  addTransient<
+    TName extends string,
+    TType,
+    const TDeps extends readonly (keyof (TRequires & TServices))[] = [],
+  >(
+    name: TName,
+    value:
+      | ((
+        services: Store<TRequires & TServices>,
+        context: FactoryContext,
+      ) => TType)
+      | DeclaredFactory<TRequires & TServices, TDeps, TType>,
+  ): ModuleDefinition<TRequires, TServices & { [P in TName]: TType }> {
+    return this.#with(this[moduleDefinition].addTransient(name, value as any));
+  }
+
+  /** Adds a scoped service. See `StoreDefinition.addScoped`. */
+  addScoped<
+    TName extends string,
+    TType,
+    const TDeps extends readonly (keyof (TRequires & TServices))[] = [],
+  >(
+    name: TName,
+    value:
+      | ((
+        services: Store<TRequires & TServices>,
+        context: FactoryContext,
+      ) => TType)
+      | DeclaredFactory<TRequires & TServices, TDeps, TType>,
+    options: ServiceOptions<TType> = {},
+  ): ModuleDefinition<TRequires, TServices & { [P in TName]: TType }> {
+    return this.#with(
+      this[moduleDefinition].addScoped(name, value as any, options as any),
+    );
+  }
+
+  /** Adds a service with an async factory. See `StoreDefinition.addAsync`. */
+  addAsync<TName extends string, TType>(
+    name: TName,
+    value: (
+      services: Store<TRequires & TServices>,
+      context: FactoryContext,
+    ) => Promise<TType>,
+    options: { cacheRejection?: boolean } & ServiceOptions<TType> = {},
+  ): ModuleDefinition<TRequires, TServices & { [P in TName]: TType }> {
+    return this.#with(
+      this[moduleDefinition].addAsync(name, value as any, options as any),
+    );
+  }
+
+  /** Adds a parameterized factory. See `StoreDefinition.addFactory`. */
+  addFactory<TName extends string, TArgs extends unknown[], TType>(
+    name: TName,
+    value: (services: Store<TRequires & TServices>, ...args: TArgs) => TType,
+    options: { key?: (...args: TArgs) => unknown } = {},
+  ): ModuleDefinition<
+    TRequires,
+    TServices & { [P in TName]: (...args: TArgs) => TType }
+  > {
+    return this.#with(this[moduleDefinition].addFactory(name, value, options));
+  }
+
+  /**
+   * Adds a contribution to a collection, which is combined with the
+   * contributions of the definition and other modules the module is
+   * used with. See `StoreDefinition.addToCollection`.
+   */
+  addToCollection<
+    TName extends string,
+    TType extends CollectionItem<TRequires & TServices, TName>,
+  >(
+    name: TName,
+    value: (
+      services: Store<TRequires & TServices>,
+      context: FactoryContext,
+    ) => TType,
+    options: { transient?: boolean } = {},
+  ): ModuleDefinition<
+    TRequires,
+    TName extends keyof (TRequires & TServices) ? TServices
+      : TServices & { [P in TName]: TType[] }
+  > {
+    return this.#with(
+      this[moduleDefinition].addToCollection(name, value, options),
+    );
   }
 }
 
+/**
+ * Start for defining a module of services that can be added to store
+ * definitions via `StoreDefinition.use`.
+ *
+ * ```ts
+ * export const userModule = defineModule("users")
+ *   .requires<{ db: Database }>()
+ *   .add("userRepo", (store) => new UserRepo(store.get("db")))
+ *   .add("userService", (store) => new UserService(store.get("userRepo")));
+ * ```
+ */
+export function defineModule(name: string): ModuleDefinition<object, object> {
+  return new ModuleDefinition(name, defineStore());
+}
+
 /**
  * Start for defining a store definition and eventually
  * creating a store.
@@ -264,7 +3149,11 @@ export class StoreDefinition<TServices extends object> {
  * const store = storeDef.finalize();
  * const userService = store.get("userService");
  * ```
+ *
+ * Options provided here are inherited by child stores.
  */
-export function defineStore(): StoreDefinition<object> {
-  return new StoreDefinition({}, undefined, {});
-}
\ No newline at end of file
+export function defineStore(
+  options: StoreOptions = {},
+): StoreDefinition<object> {
+  return new StoreDefinition({}, undefined, {}, {}, options);
+}
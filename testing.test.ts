@@ -0,0 +1,105 @@
+import {
+  assertEquals,
+  AssertionError,
+  assertRejects,
+  assertThrows,
+} from "@std/assert";
+import { defineStore } from "./mod.ts";
+import {
+  assertNoUnexpectedServices,
+  assertOverrideUsed,
+  overrideValue,
+  recordStore,
+  stub,
+  stubService,
+} from "./testing.ts";
+
+interface Mailer {
+  send(to: string): string;
+  verify(): boolean;
+}
+
+function getDefinition() {
+  return defineStore()
+    .add("db", () => ({ name: "real db" }))
+    .add("mailer", (): Mailer => ({
+      send: (to) => `sent to ${to}`,
+      verify: () => true,
+    }))
+    .add("userService", (store) => ({
+      db: store.get("db"),
+      mailer: store.get("mailer"),
+    }));
+}
+
+Deno.test("recordStore", () => {
+  const recording = recordStore(getDefinition());
+  const userService = recording.store.get("userService");
+  recording.store.get("userService");
+
+  assertEquals(recording.getCount("userService"), 2);
+  assertEquals(recording.getCount("db"), 1);
+  assertEquals(recording.gets.map((get) => get.key), [
+    "db",
+    "mailer",
+    "userService",
+    "userService",
+  ]);
+  assertEquals(recording.gets[2].value, userService);
+  assertEquals(recording.created, ["userService", "db", "mailer"]);
+});
+
+Deno.test("recordStore with async services", async () => {
+  const recording = recordStore(
+    defineStore()
+      .addAsync("db", () => Promise.resolve({ name: "db" }))
+      .addAsync("failing", () => Promise.reject(new Error("failed"))),
+  );
+  const db = await recording.store.resolve("db");
+  await assertRejects(() => recording.store.resolve("failing"));
+
+  assertEquals(recording.gets, [{ key: "db", value: db }]);
+  assertEquals(recording.created, ["db", "failing"]);
+});
+
+Deno.test("overrideValue and assertOverrideUsed", () => {
+  const db = { name: "mock db" };
+  const recording = recordStore(overrideValue(getDefinition(), "db", db));
+  assertThrows(
+    () => assertOverrideUsed(recording, "db"),
+    AssertionError,
+    "Override was never used: db",
+  );
+  assertThrows(
+    () => assertOverrideUsed(recording, "mailer"),
+    AssertionError,
+    "Service is not overridden: mailer",
+  );
+
+  assertEquals(recording.store.get("userService").db, db);
+  assertOverrideUsed(recording, "db");
+});
+
+Deno.test("stub", () => {
+  const mailer = stub<Mailer>("mailer", { send: (to) => `stubbed ${to}` });
+  assertEquals(mailer.send("a"), "stubbed a");
+  assertThrows(() => mailer.verify(), Error, "mailer.verify() is not stubbed");
+
+  const store = stubService(getDefinition(), "mailer").finalize();
+  assertThrows(
+    () => store.get("userService").mailer.send("a"),
+    Error,
+    "mailer.send() is not stubbed",
+  );
+});
+
+Deno.test("assertNoUnexpectedServices", () => {
+  const recording = recordStore(stubService(getDefinition(), "mailer"));
+  recording.store.get("userService");
+  assertNoUnexpectedServices(recording, ["userService", "db"]);
+  assertThrows(
+    () => assertNoUnexpectedServices(recording, ["userService"]),
+    AssertionError,
+    "Unexpected real services were created: db",
+  );
+});
@@ -0,0 +1,184 @@
+import { AssertionError } from "@std/assert";
+import type { ServiceOf, Store, StoreDefinition } from "./mod.ts";
+
+/** A `get` or `resolve` call recorded by `recordStore`. */
+export interface RecordedGet {
+  /** Key of the service. */
+  key: PropertyKey;
+  /**
+   * The value that was returned. For `resolve` and async services, this
+   * is the promise until it resolves and then the resolved value.
+   */
+  value: unknown;
+}
+
+/** A store created by `recordStore` along with what happened in it. */
+export interface StoreRecording<TServices extends object> {
+  /** The store created from the definition. */
+  store: Store<TServices>;
+  /**
+   * Every successful `get` and `resolve` in the order they happened,
+   * including ones made by factories.
+   */
+  gets: RecordedGet[];
+  /** Keys of the services whose factory (or override) ran, in order. */
+  created: PropertyKey[];
+  /** Gets the number of times a service was gotten. */
+  getCount(key: keyof TServices): number;
+}
+
+/**
+ * Creates a store from the definition that records every `get` and
+ * every service that's created, for use with `assertOverrideUsed` and
+ * `assertNoUnexpectedServices`.
+ *
+ * ```ts
+ * Deno.test("user service", () => {
+ *   const recording = recordStore(
+ *     overrideValue(getProductionDefinition(), "db", new MockDatabase()),
+ *   );
+ *   recording.store.get("userService").getUser(1);
+ *   assertOverrideUsed(recording, "db");
+ *   assertNoUnexpectedServices(recording, ["userService"]);
+ * });
+ * ```
+ */
+export function recordStore<TServices extends object>(
+  definition: StoreDefinition<TServices>,
+): StoreRecording<TServices> {
+  const gets: RecordedGet[] = [];
+  const created: PropertyKey[] = [];
+  const store = definition.intercept((context, next) => {
+    if (context.kind === "factory") {
+      created.push(context.key);
+      return next();
+    }
+    const value = next();
+    const get: RecordedGet = { key: context.key, value };
+    gets.push(get);
+    if (value instanceof Promise) {
+      value.then((value) => {
+        get.value = value;
+      }, () => {
+        gets.splice(gets.indexOf(get), 1);
+      });
+    }
+    return value;
+  }).finalize();
+  return {
+    store,
+    gets,
+    created,
+    getCount(key) {
+      return gets.filter((get) => get.key === key).length;
+    },
+  };
+}
+
+/** Overrides a service with a plain value instead of a factory. */
+export function overrideValue<
+  TServices extends object,
+  TName extends keyof TServices,
+>(
+  definition: StoreDefinition<TServices>,
+  name: TName,
+  value: TServices[TName],
+): StoreDefinition<TServices> {
+  return definition.override(
+    name,
+    () => value as ServiceOf<TServices, TName>,
+  );
+}
+
+/**
+ * Creates an object that throws a "not stubbed" error when any of its
+ * methods are called, except for the ones provided in `implementation`.
+ *
+ * ```ts
+ * const mailer = stub<Mailer>("mailer", {
+ *   send: () => Promise.resolve(),
+ * });
+ * mailer.send(message); // ok
+ * mailer.verify(); // throws: mailer.verify() is not stubbed
+ * ```
+ */
+export function stub<T extends object>(
+  name: string,
+  implementation: Partial<T> = {},
+): T {
+  return new Proxy(implementation, {
+    get(target, property, receiver) {
+      if (property in target) {
+        return Reflect.get(target, property, receiver);
+      }
+      // don't look like a promise or a disposable
+      if (typeof property === "symbol" || property === "then") {
+        return undefined;
+      }
+      return () => {
+        throw new Error(`${name}.${property}() is not stubbed`);
+      };
+    },
+  }) as T;
+}
+
+/** Overrides a service with a `stub` of it. */
+export function stubService<
+  TServices extends object,
+  TName extends keyof TServices,
+>(
+  definition: StoreDefinition<TServices>,
+  name: TName,
+  implementation: Partial<TServices[TName] & object> = {},
+): StoreDefinition<TServices> {
+  return definition.override(
+    name,
+    () => stub(String(name), implementation) as ServiceOf<TServices, TName>,
+  );
+}
+
+/**
+ * Asserts that a service is overridden in the recorded store and that
+ * the override was used to create it.
+ */
+export function assertOverrideUsed<TServices extends object>(
+  recording: StoreRecording<TServices>,
+  name: keyof TServices,
+): void {
+  const node = recording.store.graph().services
+    .find((node) => node.key === String(name));
+  if (node == null || !node.overridden) {
+    throw new AssertionError(`Service is not overridden: ${String(name)}`);
+  }
+  if (!recording.created.includes(name)) {
+    throw new AssertionError(
+      `Override was never used: ${String(name)}`,
+    );
+  }
+}
+
+/**
+ * Asserts that the only services created from their real (not
+ * overridden) factories are the `expected` ones.
+ */
+export function assertNoUnexpectedServices<TServices extends object>(
+  recording: StoreRecording<TServices>,
+  expected: readonly (keyof TServices)[],
+): void {
+  const overridden = new Set(
+    recording.store.graph().services
+      .filter((node) => node.overridden)
+      .map((node) => node.key),
+  );
+  const unexpected = [...new Set(recording.created)].filter((key) =>
+    !overridden.has(String(key)) &&
+    !expected.includes(key as keyof TServices)
+  );
+  if (unexpected.length > 0) {
+    throw new AssertionError(
+      `Unexpected real services were created: ${
+        unexpected.map(String).join(", ")
+      }`,
+    );
+  }
+}